@@ -2,13 +2,18 @@ export interface CommitType {
   type: string
   description: string
   emoji?: string
+  section?: string
 }
 
+export type FileStatus = "added" | "modified" | "deleted" | "renamed"
+
 export interface GitDiff {
   file: string
   insertions: number
   deletions: number
   changes: string
+  status?: FileStatus
+  from?: string
 }
 
 export interface CommitSuggestion {
@@ -17,6 +22,46 @@ export interface CommitSuggestion {
   description: string
   body?: string
   breaking?: boolean
+  // What breaks and how to migrate, becomes the BREAKING CHANGE footer
+  breakingChange?: string
+  footers?: CommitFooter[]
+}
+
+export interface CommitRules {
+  commitTypes: CommitType[]
+  scopes: string[]
+  maxSubjectLength: number
+  tickets?: TicketSettings
+  // Ticket of the current branch, when known
+  ticket?: string
+}
+
+export type TicketPlacement = "prefix" | "scope" | "footer"
+
+export interface TicketSettings {
+  // Regular expression for ticket IDs in branch names, its first group is the ID when it has one
+  pattern?: string
+  // Where the ID goes: before the description, as the scope, or in a footer (default)
+  placement?: TicketPlacement
+  // Token of the footer, "Refs" by default
+  footer?: string
+  // Warn when a commit message references no ticket
+  required?: boolean
+}
+
+export interface CommitGroup {
+  files: string[]
+  suggestion: CommitSuggestion
+}
+
+export interface PlannedCommit {
+  files: string[]
+  message: string
+}
+
+export interface IndexSnapshot {
+  tree: string
+  head: string | null
 }
 
 export interface TestCase {
@@ -28,17 +73,225 @@ export interface TestCase {
 export interface TestSuite {
   fileName: string
   functionName?: string
+  // Set from the parsed symbol, the model does not provide it
+  signature?: string
   testCases: TestCase[]
   description?: string
 }
 
+export type TestFrameworkName = "jest" | "vitest" | "mocha" | "node" | "pytest" | "go" | "cargo"
+
+export interface TestFramework {
+  name: TestFrameworkName
+  // Directory of the package.json, pytest config, go.mod or Cargo.toml the tests run from,
+  // relative to the repository root with forward slashes, "" for the root itself
+  root: string
+}
+
+// Where the tests of one source file live, relative to the repository root
+export interface TestFileTarget {
+  source: string
+  testFile: string
+  framework: TestFramework
+  // Whether the test file exists already and is updated rather than created
+  exists: boolean
+  // What the test imports: a relative module specifier, a Python module, the Go package or a Rust path
+  importPath: string
+}
+
+export interface TestFileRequest {
+  target: TestFileTarget
+  // One per changed symbol, or one for the whole file when no symbol was found
+  suites: TestSuite[]
+  diff: GitDiff
+  // Current content of the source file, and of the test file when it exists
+  source: string
+  existing?: string
+}
+
+export interface DroppedTest {
+  test: string
+  reason: string
+}
+
+// The outcome of running a generated test file and fixing it from its failures
+export interface TestVerification {
+  passed: boolean
+  // Runs, the first one included
+  attempts: number
+  tests?: number
+  dropped: DroppedTest[]
+  failure?: string
+}
+
+export interface GeneratedTestFile {
+  source: string
+  testFile: string
+  framework: TestFrameworkName
+  updated: boolean
+  verification?: TestVerification
+}
+
+// A function, method or class whose lines a diff adds or changes
+export interface ChangedSymbol {
+  name: string
+  kind: "function" | "method" | "class"
+  exported: boolean
+  // Line of the declaration in the new version of the file
+  line: number
+  // Declared by the diff, rather than changed inside
+  added: boolean
+}
+
+// A changed symbol with its code in the new version of the file
+export interface SymbolSource extends ChangedSymbol {
+  signature: string
+  code: string
+  // The class a method belongs to
+  parent?: string
+}
+
+export interface TestGapFile {
+  file: string
+  symbols: ChangedSymbol[]
+  // Test files changed in the same range that belong to this source file
+  testFiles: string[]
+  // Added lines the coverage report instruments, and those of them no test ran
+  coverage?: { lines: number; uncovered: number[] }
+}
+
+export interface TestGapReport {
+  target: string
+  // The lcov or istanbul report the coverage comes from, relative to the repository root
+  coverageReport?: string
+  files: TestGapFile[]
+  // Files with changed symbols but no test changes, or with uncovered new lines
+  gaps: number
+}
+
 export interface CommitInfo {
   hash: string
   message: string
+  body?: string
   author: string
+  email?: string
   date: string
 }
 
+export interface CommitFooter {
+  token: string
+  value: string
+}
+
+export interface ParsedCommit {
+  header: string
+  type: string | null
+  scope?: string
+  description: string | null
+  body?: string
+  footers: CommitFooter[]
+  breaking: boolean
+  // Text of every BREAKING CHANGE footer, or the description when only `!` marks the break
+  breakingNotes: string[]
+}
+
+export interface IssueReference {
+  // Issue or pull request number without the "#"
+  id: string
+  // Footer keyword that referenced it, e.g. "closes", absent for mentions in the header
+  action?: string
+  url?: string
+}
+
+export interface ChangelogItem {
+  hash: string
+  scope?: string
+  description: string
+  url?: string
+  references?: IssueReference[]
+}
+
+export interface ChangelogSection {
+  heading: string
+  entries: ChangelogItem[]
+}
+
+export interface ChangelogRelease {
+  // "Unreleased" or the version the section documents
+  version: string
+  date?: string
+  from: string | null
+  to: string
+  breakingChanges: ChangelogItem[]
+  sections: ChangelogSection[]
+  compareUrl?: string
+}
+
+export type BumpType = "major" | "minor" | "patch"
+
+export interface ReleasePlan {
+  currentVersion: string
+  nextVersion: string
+  bump: BumpType
+  // Why the bump was chosen, e.g. "2 breaking changes" or "--as 2.0.0"
+  reason: string
+  previousTag: string | null
+  tag: string
+  commitMessage: string
+  versionFiles: string[]
+  release: ChangelogRelease
+  changelog: string
+  // Workspace package being released, absent for the repository as a whole
+  package?: WorkspacePackage
+}
+
+export interface PullRequestDescription {
+  base: string
+  head: string
+  mergeBase: string
+  commits: CommitInfo[]
+  title: string
+  body: string
+  // Path of the repository's pull request template, when the body was filled into it
+  template?: string
+}
+
+export type LintSeverity = "error" | "warning"
+
+export interface LintIssue {
+  rule: string
+  severity: LintSeverity
+  message: string
+  // Replacement for the part the rule checks (type, scope, description or header), "" removes it
+  fix?: string
+  // What to change, for the fixes that are not a replacement
+  hint?: string
+}
+
+export interface LintResult {
+  message: string
+  issues: LintIssue[]
+  valid: boolean
+  // The message with every automatic fix applied, when at least one applies
+  fixed?: string
+}
+
+// What a command analyzes: one commit, a revision range, the staged index or all uncommitted changes
+export type DiffSpec =
+  | { kind: "commit"; ref: string }
+  // `mergeBase` compares against the common ancestor, as `from...to` does
+  | { kind: "range"; from: string; to: string; mergeBase?: boolean }
+  | { kind: "staged" }
+  | { kind: "worktree" }
+
+export interface DiffTarget {
+  // e.g. "commit abc1234", "main...feature", "staged changes"
+  label: string
+  // Short identifier that is safe in file names
+  id: string
+  commits: CommitInfo[]
+}
+
 export interface CommitImpact {
   riskLevel: "Low" | "Medium" | "High"
   filesTouched: number
@@ -85,6 +338,13 @@ export interface CodeReview {
   suggestions?: CodeReviewSuggestion[]
 }
 
+// Lowest severity of a review issue that fails `fynn review` and the pre-commit hook
+export type ReviewGate = "high" | "medium"
+
+export interface ReviewSettings {
+  failOn?: ReviewGate
+}
+
 export interface ChangelogEntry {
   version: string
   date: string
@@ -104,16 +364,112 @@ export interface ChangelogEntry {
   }
 }
 
+export type ProviderName = "openai" | "anthropic" | "ollama" | "openai-compatible"
+
+export interface ProviderSettings {
+  provider: ProviderName
+  model: string
+  temperature?: number
+  baseURL?: string
+  apiKey?: string
+}
+
+export type ConfigSource = "default" | "global" | "project" | "env" | "cli"
+
+export type PromptName = "commit" | "review" | "summary" | "changelog" | "duplicate" | "test" | "pr"
+
+export interface FynnConfig {
+  apiKey?: string
+  provider?: ProviderName
+  model?: string
+  temperature?: number
+  baseURL?: string
+  providers?: Partial<Record<ProviderName, Partial<Omit<ProviderSettings, "provider">>>>
+  types?: Array<string | CommitType>
+  scopes?: string[]
+  maxSubjectLength?: number
+  ignorePaths?: string[]
+  maxPromptTokens?: number
+  summarizeLargeDiffs?: boolean
+  redaction?: RedactionConfig
+  language?: string
+  prompts?: Partial<Record<PromptName, string>>
+  versionFiles?: string[]
+  tagPrefix?: string
+  links?: LinkSettings
+  workspaces?: string[]
+  // Branch `fynn pr` compares against, detected from origin/HEAD when unset
+  baseBranch?: string
+  tickets?: TicketSettings
+  // Add a Signed-off-by trailer to every commit fynn creates
+  signoff?: boolean
+  // Used instead of the detected framework for source files in its language
+  testFramework?: TestFrameworkName
+  // Seconds a verified test file may run before it is stopped
+  testTimeout?: number
+  review?: ReviewSettings
+}
+
+// Glob patterns in the syntax of `git describe --match`
+export interface TagFilter {
+  include?: string
+  exclude?: string
+}
+
+export interface WorkspacePackage {
+  name: string
+  // Directory relative to the repository root, with forward slashes
+  dir: string
+}
+
+export type HostingProvider = "github" | "gitlab" | "bitbucket" | "gitea"
+
+// URL templates with {url}, {hash}, {from}, {to} and {id} placeholders
+export interface LinkTemplates {
+  commit: string
+  compare: string
+  issue: string
+}
+
+export interface LinkSettings extends Partial<LinkTemplates> {
+  // For self-hosted instances whose host name does not reveal the software
+  provider?: HostingProvider
+  // Web URL of the repository, when the remote does not map to it
+  url?: string
+}
+
+export interface RedactionConfig {
+  enabled?: boolean
+  patterns?: string[]
+  denyPaths?: string[]
+  allowPaths?: string[]
+  entropyThreshold?: number
+  emails?: boolean
+}
+
+export interface Redaction {
+  kind: string
+  file?: string
+  preview: string
+}
+
+export interface ConfigEntry {
+  key: string
+  value: unknown
+  source: ConfigSource
+  file?: string
+}
+
 export const COMMIT_TYPES: CommitType[] = [
-  { type: "feat", description: "A new feature", emoji: "✨" },
-  { type: "fix", description: "A bug fix", emoji: "🐛" },
-  { type: "docs", description: "Documentation only changes", emoji: "📚" },
+  { type: "feat", description: "A new feature", emoji: "✨", section: "Features" },
+  { type: "fix", description: "A bug fix", emoji: "🐛", section: "Bug Fixes" },
+  { type: "docs", description: "Documentation only changes", emoji: "📚", section: "Documentation" },
   { type: "style", description: "Changes that do not affect the meaning of the code", emoji: "💎" },
   { type: "refactor", description: "A code change that neither fixes a bug nor adds a feature", emoji: "📦" },
-  { type: "perf", description: "A code change that improves performance", emoji: "🚀" },
+  { type: "perf", description: "A code change that improves performance", emoji: "🚀", section: "Performance" },
   { type: "test", description: "Adding missing tests or correcting existing tests", emoji: "🚨" },
   { type: "build", description: "Changes that affect the build system or external dependencies", emoji: "🛠" },
   { type: "ci", description: "Changes to our CI configuration files and scripts", emoji: "⚙️" },
   { type: "chore", description: "Other changes that don't modify src or test files", emoji: "♻️" },
-  { type: "revert", description: "Reverts a previous commit", emoji: "🗑" },
+  { type: "revert", description: "Reverts a previous commit", emoji: "🗑", section: "Reverts" },
 ]
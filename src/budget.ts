@@ -0,0 +1,216 @@
+import type { GitDiff } from "./Types/types";
+import { matchesGlob } from "./glob";
+
+export const GENERATED_FILE_PATTERNS = [
+  "package-lock.json",
+  "npm-shrinkwrap.json",
+  "pnpm-lock.yaml",
+  "yarn.lock",
+  "bun.lockb",
+  "Cargo.lock",
+  "poetry.lock",
+  "Pipfile.lock",
+  "Gemfile.lock",
+  "composer.lock",
+  "go.sum",
+  "*.min.js",
+  "*.min.css",
+  "*.map",
+  "*.snap",
+  "*.generated.*",
+  "*.pb.go",
+  "__generated__/",
+  "dist/",
+  "build/",
+];
+
+const LOW_SIGNAL_PATTERNS = ["*.md", "*.txt", "*.json", "*.yml", "*.yaml"];
+const TEST_PATTERNS = ["*.test.*", "*.spec.*", "test/", "tests/", "__tests__/"];
+
+export interface DiffContext {
+  text: string;
+  tokens: number;
+  omittedFiles: string[];
+  truncatedFiles: string[];
+}
+
+interface Hunk {
+  file: string;
+  fileIndex: number;
+  index: number;
+  text: string;
+  tokens: number;
+  score: number;
+}
+
+/** Rough token estimate, about four characters per token for code and English. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function isGeneratedFile(file: string): boolean {
+  return matchesGlob(file, GENERATED_FILE_PATTERNS);
+}
+
+function fileWeight(file: string): number {
+  if (matchesGlob(file, TEST_PATTERNS)) return 0.6;
+  if (matchesGlob(file, LOW_SIGNAL_PATTERNS)) return 0.5;
+  return 1;
+}
+
+function splitHunks(changes: string): { header: string; hunks: string[] } {
+  const parts = changes.split(/^(?=@@ )/m);
+  if (parts.length === 1 || !parts[0].startsWith("@@")) {
+    const [header, ...hunks] = parts;
+    return { header, hunks };
+  }
+  return { header: "", hunks: parts };
+}
+
+function scoreHunk(file: string, text: string): number {
+  const changedLines = text
+    .split("\n")
+    .filter((line) => /^[+-](?![+-]{2})/.test(line)).length;
+  const structural = /^[+-].*\b(export|function|class|interface|def|func|fn|public|private)\b/m.test(
+    text
+  )
+    ? 1.5
+    : 1;
+  return (Math.log2(changedLines + 1) + 1) * structural * fileWeight(file);
+}
+
+/**
+ * Fits as much of the diff into `budgetTokens` as possible. Lockfiles and generated files
+ * are dropped, then whole hunks are picked by importance and rendered in their original order.
+ */
+export function buildDiffContext(
+  diffs: GitDiff[],
+  budgetTokens: number
+): DiffContext {
+  const omittedFiles: string[] = [];
+  const truncatedFiles = new Set<string>();
+  const headers: string[] = [];
+  const hunks: Hunk[] = [];
+
+  diffs.forEach((diff, fileIndex) => {
+    if (isGeneratedFile(diff.file)) {
+      omittedFiles.push(diff.file);
+      return;
+    }
+    const { header, hunks: fileHunks } = splitHunks(diff.changes);
+    const meta = header
+      .split("\n")
+      .filter((line) =>
+        /^(new file|deleted file|rename |similarity|old mode|new mode|Binary)/.test(line)
+      );
+    headers[fileIndex] = [`--- ${diff.file} ---`, ...meta].join("\n");
+    // Binary files and mode changes have no hunks, keep their header as the only "hunk"
+    const pieces = fileHunks.length > 0 ? fileHunks : [header];
+    pieces.forEach((text, index) => {
+      hunks.push({
+        file: diff.file,
+        fileIndex,
+        index,
+        text,
+        tokens: estimateTokens(text),
+        score: scoreHunk(diff.file, text),
+      });
+    });
+  });
+
+  // Every file first gets its most important hunk, then the rest compete on score
+  const byScore = [...hunks].sort((a, b) => b.score - a.score);
+  const leading = new Set<Hunk>();
+  const seenFiles = new Set<number>();
+  for (const hunk of byScore) {
+    if (!seenFiles.has(hunk.fileIndex)) {
+      seenFiles.add(hunk.fileIndex);
+      leading.add(hunk);
+    }
+  }
+  const fairShare = Math.max(200, Math.floor(budgetTokens / Math.max(1, leading.size)));
+
+  const selected: Hunk[] = [];
+  let used = headers.reduce((sum, h) => sum + (h ? estimateTokens(h) : 0), 0);
+  for (const hunk of [...leading, ...byScore.filter((h) => !leading.has(h))]) {
+    if (used + hunk.tokens <= budgetTokens) {
+      selected.push(hunk);
+      used += hunk.tokens;
+      continue;
+    }
+    truncatedFiles.add(hunk.file);
+    // An oversized leading hunk still contributes its beginning rather than nothing
+    const allowance = Math.min(budgetTokens - used, fairShare);
+    if (leading.has(hunk) && allowance >= 100) {
+      selected.push({
+        ...hunk,
+        text: hunk.text.slice(0, allowance * 4) + "\n... (hunk truncated)\n",
+      });
+      used += allowance;
+    }
+  }
+
+  const text = headers
+    .map((header, fileIndex) => {
+      if (!header) return null;
+      const fileHunks = selected
+        .filter((h) => h.fileIndex === fileIndex)
+        .sort((a, b) => a.index - b.index);
+      const total = hunks.filter((h) => h.fileIndex === fileIndex).length;
+      const note =
+        fileHunks.length < total
+          ? `\n... (${total - fileHunks.length} more hunk(s) omitted)`
+          : "";
+      return `${header}\n${fileHunks.map((h) => h.text).join("")}${note}`;
+    })
+    .filter((section): section is string => section !== null)
+    .join("\n\n");
+
+  return {
+    text,
+    tokens: used,
+    omittedFiles,
+    truncatedFiles: Array.from(truncatedFiles),
+  };
+}
+
+/** Splits a diff into chunks that each fit in `chunkTokens`, breaking large files on hunk boundaries. */
+export function chunkDiffs(diffs: GitDiff[], chunkTokens: number): GitDiff[][] {
+  const chunks: GitDiff[][] = [];
+  let current: GitDiff[] = [];
+  let used = 0;
+
+  const push = (diff: GitDiff) => {
+    const tokens = estimateTokens(diff.changes);
+    if (used + tokens > chunkTokens && current.length > 0) {
+      chunks.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(diff);
+    used += tokens;
+  };
+
+  for (const diff of diffs) {
+    if (isGeneratedFile(diff.file)) continue;
+    if (estimateTokens(diff.changes) <= chunkTokens) {
+      push(diff);
+      continue;
+    }
+    const { header, hunks } = splitHunks(diff.changes);
+    let piece = header;
+    for (const hunk of hunks) {
+      if (estimateTokens(piece + hunk) > chunkTokens && piece !== header) {
+        push({ ...diff, changes: piece });
+        piece = header;
+      }
+      piece += hunk.slice(0, chunkTokens * 4);
+    }
+    push({ ...diff, changes: piece });
+  }
+
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+  return chunks;
+}
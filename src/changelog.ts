@@ -0,0 +1,378 @@
+import fs from "fs";
+import { ConfigService } from "./config";
+import { extractIssueReferences, parseCommitMessage } from "./conventional";
+import { GitService } from "./git";
+import { createRepositoryLinks, type RepositoryLinks } from "./links";
+import type {
+  ChangelogItem,
+  ChangelogRelease,
+  CommitInfo,
+  CommitType,
+  LinkSettings,
+  TagFilter,
+  WorkspacePackage,
+} from "./Types/types";
+
+export const UNRELEASED = "Unreleased";
+
+const CHANGELOG_HEADER = `# Changelog
+
+All notable changes to this project will be documented in this file.
+
+The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.1.0/),
+and this project adheres to [Semantic Versioning](https://semver.org/spec/v2.0.0.html).
+`;
+const OTHER_CHANGES = "🔧 Other Changes";
+const RELEASE_HEADING = /^## \[([^\]]+)\]/;
+// Description of the commits `fynn release` creates, e.g. "chore(release): ui@1.2.0-rc.1"
+const RELEASE_COMMIT_DESCRIPTION =
+  /^(?:\S+@)?v?\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?$/;
+
+/** Changelog sections in the configured order, types without a section share "Other Changes". */
+export function getChangelogSections(
+  commitTypes: CommitType[]
+): Array<{ heading: string; types: string[] }> {
+  const sections: Array<{ heading: string; types: string[] }> = [];
+  const otherTypes: string[] = [];
+
+  for (const commitType of commitTypes) {
+    if (!commitType.section) {
+      otherTypes.push(commitType.type);
+      continue;
+    }
+    const heading = `${commitType.emoji ? commitType.emoji + " " : ""}${
+      commitType.section
+    }`;
+    const existing = sections.find((s) => s.heading === heading);
+    if (existing) {
+      existing.types.push(commitType.type);
+    } else {
+      sections.push({ heading, types: [commitType.type] });
+    }
+  }
+
+  if (otherTypes.length > 0) {
+    sections.push({ heading: OTHER_CHANGES, types: otherTypes });
+  }
+  return sections;
+}
+
+/** Tags of a workspace package are `name@version`, the repository's own tags have no `@`. */
+export function tagFilterFor(pkg?: WorkspacePackage): TagFilter {
+  return pkg ? { include: `${pkg.name}@*` } : { exclude: "*@*" };
+}
+
+/** One bullet: scope, description with linked issue mentions, commit hash and closed issues. */
+export function renderChangelogItem(entry: ChangelogItem): string {
+  const references = entry.references || [];
+  const issueLink = (id: string) => {
+    const url = references.find((r) => r.id === id)?.url;
+    return url ? `[#${id}](${url})` : `#${id}`;
+  };
+  const description = entry.description.replace(
+    /(^|[\s(])#(\d+)\b/g,
+    (_, before: string, id: string) => before + issueLink(id)
+  );
+  const shortHash = entry.hash.substring(0, 7);
+  const hash = entry.url ? `[${shortHash}](${entry.url})` : shortHash;
+  // References from footers that the description does not already mention
+  const closes = references
+    .filter((r) => r.action && !entry.description.includes(`#${r.id}`))
+    .map((r) => `, ${r.action} ${issueLink(r.id)}`)
+    .join("");
+  return `- ${
+    entry.scope ? `**${entry.scope}:** ` : ""
+  }${description} (${hash})${closes}`;
+}
+
+/**
+ * Builds Keep a Changelog sections straight from commit history. Commits are grouped by
+ * their parsed conventional type, so the same range always produces the same text.
+ * Given a workspace package, only its commits and `name@version` tags are considered.
+ */
+export class ChangelogService {
+  private git: GitService;
+  private package?: WorkspacePackage;
+  private commitTypes: CommitType[];
+  private linkSettings?: LinkSettings;
+  private links?: Promise<RepositoryLinks | null>;
+
+  constructor(pkg?: WorkspacePackage) {
+    const config = new ConfigService();
+    this.package = pkg;
+    this.git = new GitService();
+    this.commitTypes = config.getCommitTypes();
+    this.linkSettings = config.getConfig().links;
+  }
+
+  /**
+   * One release for `from..to`. Without `from` the range starts at the nearest tag before
+   * `to`, and a `to` that is not a tag is documented as Unreleased unless `version` is given.
+   */
+  async buildRelease(options: {
+    from?: string;
+    to?: string;
+    version?: string;
+    count?: number;
+  }): Promise<ChangelogRelease> {
+    const to = options.to || "HEAD";
+    const toIsTag = await this.git.isTag(to);
+    const from =
+      options.from ??
+      (options.count
+        ? null
+        : await this.git.findNearestTag(
+            toIsTag ? `${to}^` : to,
+            tagFilterFor(this.package)
+          ));
+
+    const commits = await this.git.getCommitsBetween(
+      from,
+      to,
+      options.count,
+      this.paths()
+    );
+    const version =
+      options.version || (toIsTag ? this.versionLabel(to) : UNRELEASED);
+    // A version cut from an untagged ref is being released today
+    const date =
+      version === UNRELEASED
+        ? undefined
+        : toIsTag
+        ? await this.git.getRefDate(to)
+        : new Date().toISOString().split("T")[0];
+    return this.createRelease(
+      commits,
+      version,
+      from,
+      to,
+      date,
+      await this.getLinks()
+    );
+  }
+
+  private paths(): string[] | undefined {
+    return this.package ? [this.package.dir] : undefined;
+  }
+
+  private versionLabel(tag: string): string {
+    const prefix = this.package ? `${this.package.name}@` : "";
+    return tag.slice(prefix.length).replace(/^v(?=\d)/, "");
+  }
+
+  /** Commit, compare and issue links for the `origin` remote, resolved once per run. */
+  private getLinks(): Promise<RepositoryLinks | null> {
+    if (!this.links) {
+      this.links = this.git
+        .getRemoteUrl()
+        .catch(() => null)
+        .then((remote) => createRepositoryLinks(remote, this.linkSettings));
+    }
+    return this.links;
+  }
+
+  /** Every tag reachable from HEAD, plus Unreleased when HEAD is ahead of the last tag. Newest first. */
+  async buildAllReleases(): Promise<ChangelogRelease[]> {
+    const tags = await this.git.getTags(tagFilterFor(this.package));
+    const releases: ChangelogRelease[] = [];
+    const links = await this.getLinks();
+
+    let previous: string | null = null;
+    for (const tag of tags) {
+      const commits = await this.git.getCommitsBetween(
+        previous,
+        tag,
+        undefined,
+        this.paths()
+      );
+      const date = await this.git.getRefDate(tag);
+      releases.push(
+        this.createRelease(
+          commits,
+          this.versionLabel(tag),
+          previous,
+          tag,
+          date,
+          links
+        )
+      );
+      previous = tag;
+    }
+
+    const unreleased = await this.git.getCommitsBetween(
+      previous,
+      "HEAD",
+      undefined,
+      this.paths()
+    );
+    if (unreleased.length > 0) {
+      releases.push(
+        this.createRelease(
+          unreleased,
+          UNRELEASED,
+          previous,
+          "HEAD",
+          undefined,
+          links
+        )
+      );
+    }
+    return releases.reverse();
+  }
+
+  renderRelease(release: ChangelogRelease): string {
+    const lines = [
+      `## [${release.version}]${release.date ? ` - ${release.date}` : ""}`,
+    ];
+    if (release.breakingChanges.length > 0) {
+      lines.push("", "### ⚠ BREAKING CHANGES", "");
+      lines.push(...release.breakingChanges.map(renderChangelogItem));
+    }
+    for (const section of release.sections) {
+      lines.push("", `### ${section.heading}`, "");
+      lines.push(...section.entries.map(renderChangelogItem));
+    }
+    if (release.breakingChanges.length === 0 && release.sections.length === 0) {
+      lines.push("", "_No notable changes._");
+    }
+    if (release.compareUrl && release.from) {
+      lines.push(
+        "",
+        `**Full diff**: [${release.from}...${release.to}](${release.compareUrl})`
+      );
+    }
+    return lines.join("\n") + "\n";
+  }
+
+  /**
+   * Inserts rendered releases above the existing ones. Versions already in the file are
+   * left alone, except Unreleased, which is replaced because it is regenerated each time.
+   * `replacesUnreleased` drops it instead, for when the new version takes over its commits.
+   */
+  prepend(
+    file: string,
+    releases: Array<{ version: string; markdown: string }>,
+    replacesUnreleased = false
+  ): { written: string[]; skipped: string[] } {
+    let content = fs.existsSync(file) ? fs.readFileSync(file, "utf8") : "";
+    if (!content.trim()) {
+      content = CHANGELOG_HEADER;
+    }
+
+    const existing = new Set(
+      content
+        .split("\n")
+        .map((line) => RELEASE_HEADING.exec(line)?.[1])
+        .filter((version): version is string => Boolean(version))
+    );
+    if (replacesUnreleased || releases.some((r) => r.version === UNRELEASED)) {
+      content = this.removeRelease(content, UNRELEASED);
+      existing.delete(UNRELEASED);
+    }
+
+    const written = releases.filter((r) => !existing.has(r.version));
+    const skipped = releases
+      .filter((r) => existing.has(r.version))
+      .map((r) => r.version);
+    if (written.length === 0) {
+      return { written: [], skipped };
+    }
+
+    const block = written.map((r) => r.markdown.trimEnd()).join("\n\n");
+    const lines = content.split("\n");
+    const firstRelease = lines.findIndex((line) => line.startsWith("## "));
+    if (firstRelease === -1) {
+      content = `${content.trimEnd()}\n\n${block}\n`;
+    } else {
+      const before = lines.slice(0, firstRelease).join("\n").trimEnd();
+      const after = lines.slice(firstRelease).join("\n");
+      content = `${before}\n\n${block}\n\n${after}`;
+    }
+
+    fs.writeFileSync(file, content);
+    return { written: written.map((r) => r.version), skipped };
+  }
+
+  private removeRelease(content: string, version: string): string {
+    const lines = content.split("\n");
+    const start = lines.findIndex(
+      (line) => RELEASE_HEADING.exec(line)?.[1] === version
+    );
+    if (start === -1) return content;
+    const next = lines.findIndex(
+      (line, index) => index > start && line.startsWith("## ")
+    );
+    const end = next === -1 ? lines.length : next;
+    return [...lines.slice(0, start), ...lines.slice(end)].join("\n");
+  }
+
+  private createRelease(
+    commits: CommitInfo[],
+    version: string,
+    from: string | null,
+    to: string,
+    date?: string,
+    links?: RepositoryLinks | null
+  ): ChangelogRelease {
+    const sections = getChangelogSections(this.commitTypes).map((section) => ({
+      ...section,
+      entries: [] as ChangelogItem[],
+    }));
+    const breakingChanges: ChangelogItem[] = [];
+
+    for (const commit of commits) {
+      const parsed = parseCommitMessage(
+        commit.body ? `${commit.message}\n\n${commit.body}` : commit.message
+      );
+      if (
+        parsed.scope === "release" &&
+        RELEASE_COMMIT_DESCRIPTION.test(parsed.description ?? "")
+      ) {
+        continue;
+      }
+
+      const references = extractIssueReferences(parsed).map((reference) => ({
+        ...reference,
+        url: links?.issue(reference.id),
+      }));
+      const entry: ChangelogItem = {
+        hash: commit.hash,
+        scope: parsed.scope,
+        description: parsed.description ?? parsed.header,
+        url: links?.commit(commit.hash),
+        references: references.length > 0 ? references : undefined,
+      };
+
+      parsed.breakingNotes.forEach((note) => {
+        breakingChanges.push({ ...entry, description: note });
+      });
+
+      const section = sections.find(
+        (s) => parsed.type !== null && s.types.includes(parsed.type)
+      );
+      if (section) {
+        section.entries.push(entry);
+        continue;
+      }
+      // Unknown types and free-form messages still belong in the history
+      let other = sections.find((s) => s.heading === OTHER_CHANGES);
+      if (!other) {
+        other = { heading: OTHER_CHANGES, types: [], entries: [] };
+        sections.push(other);
+      }
+      other.entries.push(entry);
+    }
+
+    return {
+      version,
+      date,
+      from,
+      to,
+      breakingChanges,
+      compareUrl: from && links ? links.compare(from, to) : undefined,
+      sections: sections
+        .filter((section) => section.entries.length > 0)
+        .map(({ heading, entries }) => ({ heading, entries })),
+    };
+  }
+}
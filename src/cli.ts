@@ -2,17 +2,745 @@
 
 import { Command } from "commander";
 import chalk from "chalk";
-import ora from "ora";
+import ora, { type Ora } from "ora";
 import inquirer from "inquirer";
-import { GitService } from "./git";
-import { AIService } from "./ai";
+import { GitService, parseDiffSpec } from "./git";
+import {
+  AIService,
+  formatCommitFooters,
+  formatCommitMessage,
+  formatFullCommitMessage,
+} from "./ai";
 import { TestService } from "./test";
+import fs from "fs";
 import os from "os";
 import path from "path";
 import { ConfigService } from "./config";
+import {
+  SecretFileBlockedError,
+  SplitAbortedError,
+  StructuredOutputError,
+} from "./errors";
+import { createOfflineGenerator } from "./offline";
+import { SplitService, mergeCommits, moveCommit } from "./split";
+import {
+  DEFAULT_HOOKS,
+  HOOK_NAMES,
+  HookService,
+  type HookChange,
+  type HookName,
+} from "./hooks";
+import { REVIEW_GATES, blockingIssues, resolveReviewGate } from "./review";
+import { CommitLinter } from "./lint";
+import { parseCommitMessage, wrapBody } from "./conventional";
+import { ChangelogService } from "./changelog";
+import { ReleaseService } from "./release";
+import { PullRequestService, type PullRequestText } from "./pr";
+import { SquashService } from "./squash";
+import { RewordService, type Rewording } from "./reword";
+import { TestGapService, isTestGap } from "./gaps";
+import { formatLineRanges } from "./coverage";
+import {
+  loadWorkspacePackages,
+  packagesForFiles,
+  resolvePackage,
+} from "./workspace";
+import { getRedactionReport } from "./redact";
+import { applyTicket, getBranchTicket } from "./tickets";
+import {
+  PROVIDER_DEFAULTS,
+  PROVIDER_NAMES,
+  getProviderLabel,
+} from "./providers";
+import type {
+  CodeReview,
+  CommitFooter,
+  CommitGroup,
+  CommitSuggestion,
+  ConfigEntry,
+  GitDiff,
+  LintResult,
+  PlannedCommit,
+  ProviderName,
+  ReleasePlan,
+  TestGapReport,
+} from "./Types/types";
 
 const program = new Command();
 
+function printRedactionReport(): void {
+  const redactions = getRedactionReport();
+  console.log("\n" + chalk.cyan("🔒 Redaction Report"));
+  console.log(chalk.cyan("───────────────────────────────────────────────"));
+  if (redactions.length === 0) {
+    console.log(chalk.green("Nothing was redacted."));
+    return;
+  }
+  redactions.forEach((redaction) => {
+    console.log(
+      chalk.white(
+        `  • ${chalk.yellow(redaction.kind)} ${chalk.gray(
+          redaction.file ? `in ${redaction.file}` : "in prompt text"
+        )}: ${redaction.preview}`
+      )
+    );
+  });
+}
+
+function generateOfflineSuggestion(diffs: GitDiff[]): CommitSuggestion {
+  return createOfflineGenerator().generate(diffs);
+}
+
+// A commit message split into the parts the review lets you edit one by one
+interface MessageParts {
+  subject: string;
+  body: string;
+  footers: string;
+}
+
+/** Co-authored-by and Signed-off-by trailers from --co-author, --signoff and the `signoff` setting. */
+async function getCommitTrailers(
+  git: GitService,
+  options: { coAuthor?: string[]; signoff?: boolean }
+): Promise<CommitFooter[]> {
+  const trailers: CommitFooter[] = (options.coAuthor ?? []).map(
+    (identity) => {
+      if (!/^[^<>]+ <[^<>\s]+@[^<>\s]+>$/.test(identity.trim())) {
+        throw new Error(
+          `--co-author expects 'Name <email>', got '${identity}'`
+        );
+      }
+      return { token: "Co-authored-by", value: identity.trim() };
+    }
+  );
+
+  if (options.signoff || new ConfigService().getConfig().signoff) {
+    const name = await git.getConfigValue("user.name");
+    const email = await git.getConfigValue("user.email");
+    if (!name || !email) {
+      throw new Error(
+        "Signing off needs user.name and user.email, set them with git config"
+      );
+    }
+    trailers.push({ token: "Signed-off-by", value: `${name} <${email}>` });
+  }
+  return trailers;
+}
+
+function printMessageParts(parts: MessageParts): void {
+  console.log(chalk.white.bold(parts.subject));
+  if (parts.body) {
+    console.log("\n" + chalk.white(parts.body));
+  }
+  if (parts.footers) {
+    console.log("\n" + chalk.gray(parts.footers));
+  }
+}
+
+/** Lets the user edit the subject, body and footers separately. Returns null when cancelled. */
+async function reviewMessageParts(
+  initial: MessageParts
+): Promise<MessageParts | null> {
+  let parts = initial;
+  for (;;) {
+    const { action } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "action",
+        message: "What would you like to do?",
+        choices: [
+          { name: "Commit with this message", value: "commit" },
+          { name: "Edit the subject", value: "subject" },
+          { name: parts.body ? "Edit the body" : "Add a body", value: "body" },
+          {
+            name: parts.footers ? "Edit the footers" : "Add footers",
+            value: "footers",
+          },
+          { name: "Cancel", value: "cancel" },
+        ],
+      },
+    ]);
+    if (action === "commit") return parts;
+    if (action === "cancel") return null;
+
+    if (action === "subject") {
+      const { subject } = await inquirer.prompt([
+        {
+          type: "input",
+          name: "subject",
+          message: "Enter the subject:",
+          default: parts.subject,
+        },
+      ]);
+      parts = { ...parts, subject: subject.trim() || parts.subject };
+    }
+
+    if (action === "body") {
+      const { body } = await inquirer.prompt([
+        {
+          type: "editor",
+          name: "body",
+          message: "Edit the body:",
+          default: parts.body,
+        },
+      ]);
+      parts = { ...parts, body: body.trim() };
+    }
+
+    if (action === "footers") {
+      const { footers } = await inquirer.prompt([
+        {
+          type: "editor",
+          name: "footers",
+          message: "Edit the footers, one 'Token: value' per line:",
+          default: parts.footers,
+          validate: (text: string) =>
+            !text.trim() ||
+            parseCommitMessage(`chore: footers\n\n${text.trim()}`).footers
+              .length > 0 ||
+            "Footers look like 'Refs: PROJ-1234' or 'BREAKING CHANGE: ...'",
+        },
+      ]);
+      parts = { ...parts, footers: footers.trim() };
+    }
+
+    console.log("");
+    printMessageParts(parts);
+  }
+}
+
+function failWithSecretFiles(
+  spinner: Ora,
+  error: SecretFileBlockedError
+): never {
+  spinner.fail("Blocked: the changes include files that look like secret stores");
+  error.files.forEach((file) => {
+    console.log(chalk.yellow(`  • ${file}`));
+  });
+  console.log(
+    chalk.gray(
+      "\n💡 Unstage them with: git restore --staged <file>, or allow a path with: fynn config set redaction.allowPaths '[\"<path>\"]'"
+    )
+  );
+  process.exit(1);
+}
+
+function printSplitPlan(plan: PlannedCommit[]): void {
+  console.log("\n" + chalk.cyan("🪓 Proposed commits"));
+  console.log(chalk.cyan("───────────────────────────────────────────────"));
+  plan.forEach((commit, index) => {
+    console.log(
+      chalk.white.bold(`${index + 1}. ${commit.message.split("\n")[0]}`)
+    );
+    commit.files.forEach((file) => {
+      console.log(chalk.gray(`     • ${file}`));
+    });
+  });
+}
+
+/** Lets the user edit, merge and reorder the proposed commits. Returns null when cancelled. */
+async function reviewSplitPlan(
+  initialPlan: PlannedCommit[]
+): Promise<PlannedCommit[] | null> {
+  let plan = initialPlan;
+  // Only the subject is edited, footers such as the ticket reference are kept
+  const withSubject = (message: string, subject: string) =>
+    [subject || message.split("\n")[0], ...message.split("\n").slice(1)].join(
+      "\n"
+    );
+  const commitChoices = () =>
+    plan.map((commit, index) => ({
+      name: `${index + 1}. ${commit.message.split("\n")[0]}`,
+      value: index,
+    }));
+
+  for (;;) {
+    printSplitPlan(plan);
+    const { action } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "action",
+        message: "What would you like to do?",
+        choices: [
+          { name: `Create these ${plan.length} commit(s)`, value: "commit" },
+          { name: "Edit a message", value: "edit" },
+          ...(plan.length > 1
+            ? [
+                { name: "Merge commits", value: "merge" },
+                { name: "Move a commit", value: "move" },
+              ]
+            : []),
+          { name: "Cancel", value: "cancel" },
+        ],
+      },
+    ]);
+
+    if (action === "commit") return plan;
+    if (action === "cancel") return null;
+
+    if (action === "edit") {
+      const { index } = await inquirer.prompt([
+        {
+          type: "list",
+          name: "index",
+          message: "Which commit?",
+          choices: commitChoices(),
+        },
+      ]);
+      const { message } = await inquirer.prompt([
+        {
+          type: "input",
+          name: "message",
+          message: "Enter your commit message:",
+          default: plan[index].message.split("\n")[0],
+        },
+      ]);
+      plan = plan.map((commit, i) =>
+        i === index
+          ? { ...commit, message: withSubject(commit.message, message) }
+          : commit
+      );
+    }
+
+    if (action === "merge") {
+      const { indexes } = await inquirer.prompt<{ indexes: number[] }>([
+        {
+          type: "checkbox",
+          name: "indexes",
+          message: "Select the commits to merge:",
+          choices: commitChoices(),
+          validate: (selected: number[]) =>
+            selected.length >= 2 || "Select at least two commits",
+        },
+      ]);
+      const target = Math.min(...indexes);
+      const { message } = await inquirer.prompt([
+        {
+          type: "input",
+          name: "message",
+          message: "Message for the merged commit:",
+          default: plan[target].message.split("\n")[0],
+        },
+      ]);
+      plan = mergeCommits(plan, indexes).map((commit, i) =>
+        i === target
+          ? { ...commit, message: withSubject(commit.message, message) }
+          : commit
+      );
+    }
+
+    if (action === "move") {
+      const { from, to } = await inquirer.prompt([
+        {
+          type: "list",
+          name: "from",
+          message: "Which commit?",
+          choices: commitChoices(),
+        },
+        {
+          type: "list",
+          name: "to",
+          message: "Move it to position:",
+          choices: plan.map((_, index) => ({
+            name: String(index + 1),
+            value: index,
+          })),
+        },
+      ]);
+      plan = moveCommit(plan, from, to);
+    }
+  }
+}
+
+function printRewordings(rewordings: Rewording[]): void {
+  const width = 44;
+  const cell = (text: string) =>
+    text.length > width
+      ? text.substring(0, width - 1) + "…"
+      : text.padEnd(width);
+  console.log("\n" + chalk.cyan("✏️  Proposed messages"));
+  console.log(chalk.cyan("───────────────────────────────────────────────"));
+  console.log(
+    chalk.gray(`${"Commit".padEnd(8)} ${cell("Current")}   ${"Proposed"}`)
+  );
+  rewordings.forEach(({ commit, message, source }) => {
+    console.log(
+      `${chalk.yellow(commit.hash.substring(0, 7))}  ${chalk.red(
+        cell(commit.message)
+      )} → ${chalk.green(message.split("\n")[0])}${
+        source === "fix" ? "" : chalk.gray(` (${source})`)
+      }`
+    );
+  });
+}
+
+function printCodeReview(review: CodeReview): void {
+  console.log("\n" + chalk.cyan("🔍 AI Code Review"));
+  console.log(chalk.cyan("───────────────────────────────────────────────"));
+
+  if (review.overallScore) {
+    console.log(
+      chalk.white(
+        `Overall Score: ${
+          review.overallScore >= 8
+            ? chalk.green(review.overallScore + "/10")
+            : review.overallScore >= 6
+            ? chalk.yellow(review.overallScore + "/10")
+            : chalk.red(review.overallScore + "/10")
+        }`
+      )
+    );
+  }
+
+  if (review.issues && review.issues.length > 0) {
+    console.log(chalk.yellow("\n⚠️  Issues Found:"));
+    review.issues.forEach((issue, index) => {
+      const severityColor =
+        issue.severity === "high"
+          ? chalk.red
+          : issue.severity === "medium"
+          ? chalk.yellow
+          : chalk.blue;
+      console.log(
+        chalk.white(
+          `\n${index + 1}. ${severityColor(issue.severity.toUpperCase())}: ${
+            issue.title
+          }`
+        )
+      );
+      console.log(chalk.gray(`   File: ${issue.file}:${issue.line}`));
+      console.log(chalk.gray(`   ${issue.description}`));
+      if (issue.suggestion) {
+        console.log(chalk.green(`   💡 Fix: ${issue.suggestion}`));
+      }
+    });
+  }
+
+  if (review.suggestions && review.suggestions.length > 0) {
+    console.log(chalk.green("\n✨ Improvement Suggestions:"));
+    review.suggestions.forEach((suggestion, index) => {
+      console.log(chalk.white(`\n${index + 1}. ${suggestion.title}`));
+      console.log(chalk.gray(`   ${suggestion.description}`));
+      if (suggestion.example) {
+        console.log(chalk.blue(`   Example: ${suggestion.example}`));
+      }
+    });
+  }
+
+  if (!review.issues?.length && !review.suggestions?.length) {
+    console.log(chalk.green("\n✅ No issues found! Code looks good."));
+  }
+}
+
+function printTestGaps(report: TestGapReport): void {
+  const truncate = (text: string, width: number) =>
+    text.length > width ? text.substring(0, width - 1) + "…" : text;
+  const rows = report.files.map((file) => ({
+    gap: isTestGap(file),
+    file: file.file,
+    symbols:
+      file.symbols
+        .map(
+          (symbol) => `${symbol.name}${symbol.kind === "class" ? "" : "()"}`
+        )
+        .join(", ") || "-",
+    tests: file.testFiles.join(", ") || "none",
+    uncovered: file.coverage
+      ? file.coverage.uncovered.length > 0
+        ? `${formatLineRanges(file.coverage.uncovered)} (${
+            file.coverage.uncovered.length
+          }/${file.coverage.lines})`
+        : file.coverage.lines > 0
+        ? "none"
+        : "-"
+      : "-",
+  }));
+  const fileWidth = Math.min(
+    40,
+    Math.max(4, ...rows.map((row) => row.file.length))
+  );
+  const symbolWidth = Math.min(
+    36,
+    Math.max(7, ...rows.map((row) => row.symbols.length))
+  );
+  const testWidth = Math.min(
+    32,
+    Math.max(5, ...rows.map((row) => row.tests.length))
+  );
+
+  console.log("\n" + chalk.cyan(`🧪 Test gaps in ${report.target}`));
+  console.log(chalk.cyan("───────────────────────────────────────────────"));
+  console.log(
+    chalk.gray(
+      `  ${"File".padEnd(fileWidth)}  ${"Changed".padEnd(
+        symbolWidth
+      )}  ${"Tests".padEnd(testWidth)}  Uncovered new lines`
+    )
+  );
+  rows.forEach((row) => {
+    const uncovered = /^\d/.test(row.uncovered)
+      ? chalk.red(row.uncovered)
+      : chalk.gray(row.uncovered);
+    const file = truncate(row.file, fileWidth).padEnd(fileWidth);
+    const symbols = truncate(row.symbols, symbolWidth).padEnd(symbolWidth);
+    const tests = truncate(row.tests, testWidth).padEnd(testWidth);
+    console.log(
+      `${row.gap ? chalk.red("✖") : chalk.green("✔")} ${chalk.white(
+        file
+      )}  ${chalk.yellow(symbols)}  ${
+        row.tests === "none" ? chalk.red(tests) : chalk.green(tests)
+      }  ${uncovered}`
+    );
+  });
+  console.log(
+    chalk.gray(
+      report.coverageReport
+        ? `\nCoverage from ${report.coverageReport}`
+        : "\nNo coverage report found, pass one with --coverage <file>"
+    )
+  );
+}
+
+/** Lets the user edit or drop the proposed messages. Returns null when cancelled. */
+async function reviewRewordings(
+  initial: Rewording[]
+): Promise<Rewording[] | null> {
+  let rewordings = initial;
+  const choices = () =>
+    rewordings.map((rewording, index) => ({
+      name: `${rewording.commit.hash.substring(0, 7)} ${
+        rewording.message.split("\n")[0]
+      }`,
+      value: index,
+    }));
+
+  for (;;) {
+    const { action } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "action",
+        message: "What would you like to do?",
+        choices: [
+          {
+            name: `Rewrite these ${rewordings.length} commit(s)`,
+            value: "apply",
+          },
+          { name: "Edit a message", value: "edit" },
+          { name: "Leave some commits as they are", value: "skip" },
+          { name: "Cancel", value: "cancel" },
+        ],
+      },
+    ]);
+
+    if (action === "apply") return rewordings;
+    if (action === "cancel") return null;
+
+    if (action === "edit") {
+      const { index } = await inquirer.prompt([
+        {
+          type: "list",
+          name: "index",
+          message: "Which commit?",
+          choices: choices(),
+        },
+      ]);
+      const [subject, ...rest] = rewordings[index].message.split("\n");
+      const { message } = await inquirer.prompt([
+        {
+          type: "input",
+          name: "message",
+          message: "Enter the new subject:",
+          default: subject,
+        },
+      ]);
+      rewordings = rewordings.map((rewording, i) =>
+        i === index && message
+          ? { ...rewording, message: [message, ...rest].join("\n") }
+          : rewording
+      );
+    }
+
+    if (action === "skip") {
+      const { keep } = await inquirer.prompt<{ keep: number[] }>([
+        {
+          type: "checkbox",
+          name: "keep",
+          message: "Select the commits to rewrite:",
+          choices: choices().map((choice) => ({ ...choice, checked: true })),
+        },
+      ]);
+      if (keep.length === 0) return null;
+      rewordings = rewordings.filter((_, index) => keep.includes(index));
+    }
+    printRewordings(rewordings);
+  }
+}
+
+function printHookChanges(changes: HookChange[]): void {
+  const icons: Record<HookChange["action"], string> = {
+    installed: chalk.green("✅"),
+    updated: chalk.green("✅"),
+    removed: chalk.green("🗑️ "),
+    unchanged: chalk.gray("•"),
+    manual: chalk.yellow("⚠️ "),
+  };
+  changes.forEach((change) => {
+    console.log(
+      `${icons[change.action]} ${chalk.white(change.hook)} ${chalk.gray(
+        `${change.action} (${change.manager}: ${change.file})`
+      )}`
+    );
+    if (change.note) {
+      console.log(chalk.gray(`   ${change.note.split("\n").join("\n   ")}`));
+    }
+  });
+}
+
+function printLintResult(
+  result: LintResult,
+  label: string,
+  log: (message: string) => void = console.log
+): void {
+  const icon = result.valid
+    ? result.issues.length > 0
+      ? chalk.yellow("⚠")
+      : chalk.green("✔")
+    : chalk.red("✖");
+  log(`${icon} ${chalk.white(label)}`);
+  result.issues.forEach((issue) => {
+    const severity =
+      issue.severity === "error"
+        ? chalk.red(issue.severity.padEnd(7))
+        : chalk.yellow(issue.severity.padEnd(7));
+    const fix = issue.hint
+      ? chalk.green(` → ${issue.hint}`)
+      : issue.fix
+      ? chalk.green(` → ${issue.fix}`)
+      : "";
+    log(
+      `  ${severity} ${chalk.gray(issue.rule.padEnd(24))} ${issue.message}${fix}`
+    );
+  });
+  if (result.fixed) {
+    log(
+      chalk.cyan("  💡 Suggested message: ") +
+        chalk.white(result.fixed.split("\n")[0])
+    );
+  }
+}
+
+async function polishChangelogEntries(
+  entries: Array<{ version: string; markdown: string }>,
+  spinner: Ora
+): Promise<Array<{ version: string; markdown: string }>> {
+  if (!new ConfigService().hasCredentials()) {
+    spinner.warn(
+      "No AI provider credentials found, keeping the generated wording"
+    );
+    spinner.start();
+    return entries;
+  }
+
+  spinner.text = "Polishing the wording...";
+  const ai = new AIService();
+  return Promise.all(
+    entries.map(async (entry) => {
+      try {
+        return { ...entry, markdown: await ai.polishChangelog(entry.markdown) };
+      } catch (error) {
+        console.log(
+          chalk.yellow(
+            `\n⚠️  Could not polish ${entry.version}, keeping the generated wording: ${
+              error instanceof Error ? error.message : error
+            }`
+          )
+        );
+        return entry;
+      }
+    })
+  );
+}
+
+function printChangelogPreview(markdown: string): void {
+  console.log("\n" + chalk.cyan("📋 Changelog Preview:"));
+  console.log(chalk.cyan("───────────────────────────────────────────────"));
+  const lines = markdown.trimEnd().split("\n");
+  lines.slice(0, 15).forEach((line) => {
+    if (line.startsWith("### ")) {
+      console.log(chalk.cyan.bold(line));
+    } else if (line.startsWith("#")) {
+      console.log(chalk.blue.bold(line));
+    } else if (line.startsWith("- ")) {
+      console.log(chalk.white(line));
+    } else {
+      console.log(chalk.gray(line));
+    }
+  });
+  if (lines.length > 15) {
+    console.log(chalk.gray("... (see CHANGELOG.md for full content)"));
+  }
+}
+
+function printReleasePlan(plan: ReleasePlan, changelogFile: string): void {
+  console.log("\n" + chalk.cyan("🏷️  Release Plan"));
+  console.log(chalk.cyan("───────────────────────────────────────────────"));
+  console.log(
+    chalk.white(
+      `Version:  ${plan.currentVersion} → ${chalk.bold(plan.nextVersion)} (${
+        plan.bump
+      }, ${plan.reason})`
+    )
+  );
+  if (plan.package) {
+    console.log(
+      chalk.white(`Package:  ${plan.package.name} (${plan.package.dir})`)
+    );
+  }
+  console.log(
+    chalk.white(`Commits:  since ${plan.previousTag ?? "the first commit"}`)
+  );
+  console.log(
+    chalk.white(
+      `Files:    ${[...plan.versionFiles, changelogFile].join(", ")}`
+    )
+  );
+  console.log(chalk.white(`Commit:   ${plan.commitMessage}`));
+  console.log(chalk.white(`Tag:      ${plan.tag}`));
+  printChangelogPreview(plan.changelog);
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+// Masks API keys at any depth, `config get providers` prints whole objects
+function maskSecrets(value: unknown, key?: string): unknown {
+  if (key === "apiKey") return "********";
+  if (Array.isArray(value)) return value.map((item) => maskSecrets(item));
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([name, item]) => [
+        name,
+        maskSecrets(item, name),
+      ])
+    );
+  }
+  return value;
+}
+
+function formatConfigEntry(entry: ConfigEntry): string {
+  const masked = maskSecrets(entry.value, entry.key.split(".").pop());
+  const value = typeof masked === "string" ? masked : JSON.stringify(masked);
+  const origin = entry.file ? `${entry.source}: ${entry.file}` : entry.source;
+  return `${chalk.white(entry.key)} = ${chalk.green(value)} ${chalk.gray(
+    `(${origin})`
+  )}`;
+}
+
 program
   .name("fynn")
   .description("AI-powered commit message generator")
@@ -20,8 +748,22 @@ program
   .option("--commit", "Stage and commit all changes before generating commit")
   .option("--push", "Push changes after committing (handles full workflow)")
   .option("--ask", "Ask for confirmation before committing")
+  .option(
+    "--co-author <identity>",
+    "Add a Co-authored-by trailer, e.g. 'Ada <ada@example.com>' (repeatable)",
+    (value: string, previous: string[] = []) => [...previous, value]
+  )
+  .option("-s, --signoff", "Add a Signed-off-by trailer with your git identity")
   .option("--dry-run", "Generate message without committing")
-  .option("--test", "Generate test cases for the latest commit")
+  .option("--test", "Write tests for the source files changed in the latest commit")
+  .option(
+    "--verify",
+    "With --test, run the generated tests in a sandbox and let the AI fix failures"
+  )
+  .option(
+    "--rev <spec>",
+    "With --test, --impact, --summary, --duplicate or --review: a commit, a range (main..feature), 'staged' or 'worktree'"
+  )
   .option(
     "--impact",
     "Show commit impact analysis (risk level, files touched, complexity)"
@@ -41,7 +783,21 @@ program
   )
   .option(
     "--log [count]",
-    "Generate CHANGELOG.md from recent commits (e.g., --log 5 for last 5 commits)"
+    "Add the last commits to CHANGELOG.md (e.g., --log 5 for last 5 commits)"
+  )
+  .option(
+    "--package <name>",
+    "With --log, use the commits and CHANGELOG.md of one workspace package"
+  )
+  .option("--provider <name>", `AI provider (${PROVIDER_NAMES.join(", ")})`)
+  .option("--model <name>", "Model to use for this run")
+  .option(
+    "--offline",
+    "Generate the commit message locally from file paths, without an AI provider"
+  )
+  .option(
+    "--show-redactions",
+    "Report secrets and personal data that were redacted before reaching the AI provider"
   )
   .addHelpText(
     "after",
@@ -50,10 +806,25 @@ Examples:
   $ fynn --commit --ask          Stage changes and generate commit with confirmation
   $ fynn --push               Generate commit and push to remote
   $ fynn --dry-run            Preview commit message without committing
-  $ fynn --test               Generate test cases for latest commit
+  $ fynn --offline            Generate commit message without contacting an AI provider
+  $ fynn --test               Write tests for the latest commit
+  $ fynn --test --verify      Write tests, run them and fix the failures
   $ fynn --review             Get AI code review of latest commit
+  $ fynn --review --rev main..HEAD  Review every change on the current branch
+  $ fynn --impact --rev staged  Check the risk of the staged changes before committing
   $ fynn --log 10             Generate changelog from last 10 commits
-  $ fynn setup                Setup OpenAI API key
+  $ fynn setup                Choose an AI provider and save its credentials
+  $ fynn config list          Show the resolved configuration and where each value comes from
+  $ fynn split                Split staged changes into several atomic commits
+  $ fynn test-gaps --fail     Fail when changed code on the branch has no tests
+  $ fynn review --staged --ask  Review the staged changes before committing them
+  $ fynn hook install         Suggest and validate messages from plain git commit
+  $ fynn lint origin/main..HEAD  Check the commits on a branch against the conventions
+  $ fynn changelog --release 1.2.0  Add the commits since the last tag to CHANGELOG.md
+  $ fynn release --dry-run    Show the next version, changelog and tag without releasing
+  $ fynn pr -o pr.md          Describe the current branch as a pull request against main
+  $ fynn squash --apply       Squash the branch into one commit with a generated message
+  $ fynn reword origin/main..HEAD  Rewrite the unpushed commits that break the conventions
 
 For more information, visit: https://github.com/yourusername/fynn
 `
@@ -81,34 +852,48 @@ For more information, visit: https://github.com/yourusername/fynn
         process.exit(1);
       }
 
+      const spec = parseDiffSpec(options.rev);
+      if (options.rev) {
+        // Fail on a mistyped revision here, the analyses below treat errors as "no changes"
+        try {
+          await git.describeDiff(spec);
+        } catch (error) {
+          spinner.fail(error instanceof Error ? error.message : String(error));
+          process.exit(1);
+        }
+      }
+      const emptyTarget = options.rev
+        ? `No changes found in ${options.rev}`
+        : undefined;
+
       // Check if API key is required for this operation
       const requiresApiKey =
         options.test ||
         options.summary ||
         options.duplicate ||
-        options.review ||
-        options.log !== undefined ||
-        options.push ||
-        (!options.impact && !options.report);
+        options.review;
 
       if (requiresApiKey) {
         const config = new ConfigService();
-        if (!config.hasApiKey()) {
-          spinner.fail("OpenAI API key not found");
+        if (!config.hasCredentials()) {
+          const provider = config.getProvider();
+          const label = getProviderLabel(provider);
+          const envName = PROVIDER_DEFAULTS[provider].apiKeyEnv;
+          spinner.fail(`${label} credentials not found`);
           console.log(
             chalk.yellow(
-              "\n💡 To use this feature, you need to set up your OpenAI API key"
+              `\n💡 To use this feature, you need to configure the ${label} provider`
             )
           );
           console.log(
             chalk.cyan("\nRun: ") +
               chalk.white("fynn setup") +
-              chalk.cyan(" to save your API key")
-          );
-          console.log(chalk.gray("\nOr set it as environment variable:"));
-          console.log(
-            chalk.gray("  export OPENAI_API_KEY='your-api-key-here'")
+              chalk.cyan(" to choose a provider and save its credentials")
           );
+          if (envName) {
+            console.log(chalk.gray("\nOr set it as environment variable:"));
+            console.log(chalk.gray(`  export ${envName}='your-api-key-here'`));
+          }
           process.exit(1);
         }
       }
@@ -116,17 +901,51 @@ For more information, visit: https://github.com/yourusername/fynn
       if (options.test) {
         spinner.text = "Generating test cases...";
         const testService = new TestService();
-        const result = await testService.generateTestsForCommit();
+        if (options.verify) {
+          spinner.text = "Generating and running test cases...";
+        }
+        const result = await testService.generateTestsForCommit(spec, {
+          verify: options.verify,
+        });
 
         if (result.success) {
           spinner.succeed(result.message);
-          if (result.location) {
+        } else {
+          spinner.fail(result.message);
+        }
+        result.files?.forEach((file) => {
+          const { verification } = file;
+          if (verification && !verification.passed) {
             console.log(
-              chalk.green(`📁 Test files saved to: ${result.location}`)
+              chalk.red(`  ✗ Dropped ${file.testFile}: ${verification.failure}`)
+            );
+          } else {
+            const runs = verification
+              ? `, ${verification.tests ?? "all"} test(s) pass${
+                  verification.attempts > 1
+                    ? ` after ${verification.attempts - 1} fix(es)`
+                    : ""
+                }`
+              : "";
+            console.log(
+              chalk.green(
+                `  ${file.updated ? "✎ Updated" : "✓ Created"} ${
+                  file.testFile
+                }`
+              ) +
+                chalk.gray(` (${file.framework}, for ${file.source}${runs})`)
             );
           }
-        } else {
-          spinner.fail(result.message);
+          verification?.dropped.forEach((dropped) => {
+            console.log(
+              chalk.yellow(`      − removed "${dropped.test}": ${dropped.reason}`)
+            );
+          });
+        });
+        result.skipped?.forEach((reason) => {
+          console.log(chalk.yellow(`  ⚠️  Skipped ${reason}`));
+        });
+        if (!result.success) {
           process.exit(1);
         }
         return;
@@ -134,7 +953,7 @@ For more information, visit: https://github.com/yourusername/fynn
 
       if (options.impact) {
         spinner.text = "Analyzing commit impact...";
-        const impact = await git.analyzeCommitImpact();
+        const impact = await git.analyzeCommitImpact(spec);
 
         if (impact) {
           spinner.succeed("Impact analysis complete!");
@@ -156,7 +975,7 @@ For more information, visit: https://github.com/yourusername/fynn
           );
           console.log(chalk.gray(`\nDetails: ${impact.details}`));
         } else {
-          spinner.fail("No commits found to analyze");
+          spinner.fail(emptyTarget ?? "No commits found to analyze");
           process.exit(1);
         }
         return;
@@ -165,14 +984,14 @@ For more information, visit: https://github.com/yourusername/fynn
       if (options.summary) {
         spinner.text = "Generating commit summary...";
         const ai = new AIService();
-        const summary = await ai.generateCommitSummary();
+        const summary = await ai.generateCommitSummary(spec);
 
         if (summary) {
           spinner.succeed("Summary generated!");
           console.log("\n" + chalk.cyan("📝 Commit Summary:"));
           console.log(chalk.white(summary));
         } else {
-          spinner.fail("No commits found to summarize");
+          spinner.fail(emptyTarget ?? "No commits found to summarize");
           process.exit(1);
         }
         return;
@@ -210,7 +1029,9 @@ For more information, visit: https://github.com/yourusername/fynn
       if (options.duplicate) {
         spinner.text = "Scanning for duplicate code patterns...";
         const ai = new AIService();
-        const duplicates = await ai.findDuplicateCode();
+        const duplicates = await ai.findDuplicateCode(
+          options.rev ? spec : undefined
+        );
 
         if (duplicates && duplicates.length > 0) {
           spinner.succeed("Duplicate code analysis complete!");
@@ -247,8 +1068,12 @@ For more information, visit: https://github.com/yourusername/fynn
       if (options.review) {
         spinner.text = "Performing AI code review...";
         const ai = new AIService();
-        const review = await ai.performCodeReview();
+        const review = await ai.performCodeReview(spec);
 
+        if (!review && emptyTarget) {
+          spinner.fail(emptyTarget);
+          process.exit(1);
+        }
         if (!review) {
           spinner.fail("No commits found to review");
           console.log(
@@ -259,130 +1084,46 @@ For more information, visit: https://github.com/yourusername/fynn
           process.exit(1);
         }
 
-        if (review) {
-          spinner.succeed("Code review complete!");
-          console.log("\n" + chalk.cyan("🔍 AI Code Review"));
-          console.log(
-            chalk.cyan("───────────────────────────────────────────────")
-          );
-
-          if (review.overallScore) {
-            console.log(
-              chalk.white(
-                `Overall Score: ${
-                  review.overallScore >= 8
-                    ? chalk.green(review.overallScore + "/10")
-                    : review.overallScore >= 6
-                    ? chalk.yellow(review.overallScore + "/10")
-                    : chalk.red(review.overallScore + "/10")
-                }`
-              )
-            );
-          }
-
-          if (review.issues && review.issues.length > 0) {
-            console.log(chalk.yellow("\n⚠️  Issues Found:"));
-            review.issues.forEach((issue, index) => {
-              const severityColor =
-                issue.severity === "high"
-                  ? chalk.red
-                  : issue.severity === "medium"
-                  ? chalk.yellow
-                  : chalk.blue;
-              console.log(
-                chalk.white(
-                  `\n${index + 1}. ${severityColor(
-                    issue.severity.toUpperCase()
-                  )}: ${issue.title}`
-                )
-              );
-              console.log(chalk.gray(`   File: ${issue.file}:${issue.line}`));
-              console.log(chalk.gray(`   ${issue.description}`));
-              if (issue.suggestion) {
-                console.log(chalk.green(`   💡 Fix: ${issue.suggestion}`));
-              }
-            });
-          }
-
-          if (review.suggestions && review.suggestions.length > 0) {
-            console.log(chalk.green("\n✨ Improvement Suggestions:"));
-            review.suggestions.forEach((suggestion, index) => {
-              console.log(chalk.white(`\n${index + 1}. ${suggestion.title}`));
-              console.log(chalk.gray(`   ${suggestion.description}`));
-              if (suggestion.example) {
-                console.log(chalk.blue(`   Example: ${suggestion.example}`));
-              }
-            });
-          }
-
-          if (!review.issues?.length && !review.suggestions?.length) {
-            console.log(chalk.green("\n✅ No issues found! Code looks good."));
-          }
-        } else {
-          spinner.fail("No code changes found to review");
-          process.exit(1);
-        }
+        spinner.succeed("Code review complete!");
+        printCodeReview(review);
         return;
       }
 
-      if (options.log !== undefined || options.since) {
+      if (options.log !== undefined) {
         spinner.text = "Generating changelog...";
-        const ai = new AIService();
 
         let commitCount: number | undefined;
-        let sinceDate: string | undefined;
-
-        if (options.log !== undefined) {
-          if (
-            typeof options.log === "string" &&
-            !isNaN(Number.parseInt(options.log))
-          ) {
-            commitCount = Number.parseInt(options.log);
-          } else if (typeof options.log === "boolean") {
-            commitCount = 10;
-          }
-        }
-
-        if (options.since) {
-          sinceDate = options.since;
+        if (
+          typeof options.log === "string" &&
+          !isNaN(Number.parseInt(options.log))
+        ) {
+          commitCount = Number.parseInt(options.log);
+        } else if (options.log === true) {
+          commitCount = 10;
         }
 
-        const changelog = await ai.generateChangelog(commitCount, sinceDate);
-
-        if (changelog) {
-          const fs = await import("fs/promises");
-          const path = await import("path");
-
-          const changelogPath = path.join(process.cwd(), "CHANGELOG.md");
-          await fs.writeFile(changelogPath, changelog, "utf8");
-
-          spinner.succeed("Changelog generated successfully!");
-          console.log(
-            chalk.green(`📄 CHANGELOG.md created at: ${changelogPath}`)
-          );
-          console.log("\n" + chalk.cyan("📋 Changelog Preview:"));
-          console.log(
-            chalk.cyan("───────────────────────────────────────────────")
-          );
-          const lines = changelog.split("\n").slice(0, 15);
-          lines.forEach((line) => {
-            if (line.startsWith("#")) {
-              console.log(chalk.blue.bold(line));
-            } else if (line.startsWith("##")) {
-              console.log(chalk.cyan.bold(line));
-            } else if (line.startsWith("- ")) {
-              console.log(chalk.white(line));
-            } else {
-              console.log(chalk.gray(line));
-            }
-          });
-          if (changelog.split("\n").length > 15) {
-            console.log(chalk.gray("... (see CHANGELOG.md for full content)"));
-          }
-        } else {
+        const pkg = options.package
+          ? resolvePackage(loadWorkspacePackages(), options.package)
+          : undefined;
+        const changelog = new ChangelogService(pkg);
+        const release = await changelog.buildRelease({ count: commitCount });
+        if (release.sections.length === 0) {
           spinner.fail("No commits found to generate changelog");
           process.exit(1);
         }
+
+        const markdown = changelog.renderRelease(release);
+        const changelogPath = path.join(
+          await git.getRepositoryRoot(),
+          pkg?.dir ?? "",
+          "CHANGELOG.md"
+        );
+        changelog.prepend(changelogPath, [
+          { version: release.version, markdown },
+        ]);
+        spinner.succeed("Changelog generated successfully!");
+        console.log(chalk.green(`📄 CHANGELOG.md updated at: ${changelogPath}`));
+        printChangelogPreview(markdown);
         return;
       }
 
@@ -522,21 +1263,73 @@ For more information, visit: https://github.com/yourusername/fynn
       spinner.text = "Analyzing staged changes...";
       const diffs = await git.getStagedDiff();
 
-      spinner.text = "Generating commit message with AI...";
+      const spanned = packagesForFiles(
+        loadWorkspacePackages(),
+        diffs.map((d) => d.file)
+      );
+      if (spanned.length > 1) {
+        console.log(
+          chalk.yellow(
+            `\n⚠️  The staged changes span ${spanned.length} packages (${spanned
+              .map((pkg) => pkg.name)
+              .join(", ")}), consider 'fynn split' to commit them separately`
+          )
+        );
+      }
+
       const shouldAsk = options.ask === true;
-      const ai = new AIService();
-      const suggestion = await ai.generateCommitMessage(diffs);
-      const commitMessage = ai.formatCommitMessage(suggestion);
+      let suggestion: CommitSuggestion;
+
+      if (options.offline) {
+        spinner.text = "Generating commit message offline...";
+        suggestion = generateOfflineSuggestion(diffs);
+      } else if (!new ConfigService().hasCredentials()) {
+        console.log(
+          chalk.yellow(
+            "\n⚠️  No AI provider credentials found, generating the message offline"
+          )
+        );
+        suggestion = generateOfflineSuggestion(diffs);
+      } else {
+        spinner.text = "Generating commit message with AI...";
+        try {
+          suggestion = await new AIService().generateCommitMessage(diffs);
+        } catch (error) {
+          if (error instanceof SecretFileBlockedError) {
+            throw error;
+          }
+          console.log(
+            chalk.yellow(
+              `\n⚠️  AI generation failed (${
+                error instanceof Error ? error.message : String(error)
+              }), falling back to the offline generator`
+            )
+          );
+          suggestion = generateOfflineSuggestion(diffs);
+        }
+      }
+      const tickets = new ConfigService().getConfig().tickets;
+      const ticket = await getBranchTicket(git, tickets);
+      if (tickets && ticket) {
+        suggestion = applyTicket(suggestion, ticket, tickets);
+      }
+      suggestion = {
+        ...suggestion,
+        footers: [
+          ...(suggestion.footers ?? []),
+          ...(await getCommitTrailers(git, options)),
+        ],
+      };
+      let parts: MessageParts = {
+        subject: formatCommitMessage(suggestion),
+        body: suggestion.body?.trim() ? wrapBody(suggestion.body.trim()) : "",
+        footers: formatCommitFooters(suggestion),
+      };
 
       if (shouldAsk) {
         spinner.succeed("Commit message generated!");
         console.log("\n" + chalk.cyan("📝 Suggested commit message:"));
-        console.log(chalk.white.bold(commitMessage));
-
-        if (suggestion.body) {
-          console.log("\n" + chalk.gray("Body:"));
-          console.log(chalk.gray(suggestion.body));
-        }
+        printMessageParts(parts);
 
         console.log("\n" + chalk.yellow("📁 Files to be committed:"));
         stagedFiles.forEach((file) => {
@@ -551,39 +1344,19 @@ For more information, visit: https://github.com/yourusername/fynn
         return;
       }
 
-      let finalMessage = commitMessage;
-
       if (shouldAsk) {
-        const { action, customMessage } = await inquirer.prompt([
-          {
-            type: "list",
-            name: "action",
-            message: "What would you like to do?",
-            choices: [
-              { name: "Commit with this message", value: "commit" },
-              { name: "Edit the message", value: "edit" },
-              { name: "Cancel", value: "cancel" },
-            ],
-          },
-          {
-            type: "input",
-            name: "customMessage",
-            message: "Enter your commit message:",
-            default: commitMessage,
-            when: (answers) => answers.action === "edit",
-          },
-        ]);
-
-        if (action === "cancel") {
+        const reviewed = await reviewMessageParts(parts);
+        if (!reviewed) {
           console.log(chalk.yellow("Commit cancelled"));
           return;
         }
-
-        finalMessage = customMessage || commitMessage;
+        parts = reviewed;
       }
       const commitSpinner = ora("Committing changes...").start();
-      await git.commit(finalMessage);
-      commitSpinner.succeed(`Committed: ${finalMessage}`);
+      await git.commit(
+        [parts.subject, parts.body, parts.footers].filter(Boolean).join("\n\n")
+      );
+      commitSpinner.succeed(`Committed: ${parts.subject}`);
 
       if (options.push) {
         const pushSpinner = ora("Pushing changes...").start();
@@ -661,6 +1434,23 @@ For more information, visit: https://github.com/yourusername/fynn
         }
       }
     } catch (error) {
+      if (error instanceof SecretFileBlockedError) {
+        failWithSecretFiles(spinner, error);
+      }
+      if (error instanceof StructuredOutputError) {
+        spinner.fail(`The AI could not produce a valid ${error.label}`);
+        error.problems.forEach((problem) => {
+          console.log(chalk.yellow(`  • ${problem}`));
+        });
+        console.log(
+          chalk.gray(
+            error.label === "commit message"
+              ? "\n💡 Adjust 'types', 'scopes' or 'maxSubjectLength' with fynn config, or commit manually"
+              : "\n💡 Try again, or switch to a more capable model with --model"
+          )
+        );
+        process.exit(1);
+      }
       spinner.fail(
         `Error: ${error instanceof Error ? error.message : "Unknown error"}`
       );
@@ -670,29 +1460,74 @@ For more information, visit: https://github.com/yourusername/fynn
 
 program
   .command("setup")
-  .description("Setup OpenAI API key")
+  .description("Choose an AI provider and save its credentials")
   .action(async () => {
-    console.log("\n" + chalk.blue("🔧 OpenAI API Key Setup"));
-    console.log("\n" + chalk.green("Get your OpenAI API key:"));
-    console.log(chalk.gray("1. Visit: https://platform.openai.com/api-keys"));
-    console.log(chalk.gray("2. Create a new API key"));
-    console.log(chalk.gray("3. Copy and paste the key below"));
+    console.log("\n" + chalk.blue("🔧 AI Provider Setup"));
+
+    const { provider } = await inquirer.prompt<{ provider: ProviderName }>([
+      {
+        type: "list",
+        name: "provider",
+        message: "Which provider should fynn use?",
+        choices: PROVIDER_NAMES.map((name) => ({
+          name: getProviderLabel(name),
+          value: name,
+        })),
+      },
+    ]);
+    const defaults = PROVIDER_DEFAULTS[provider];
+
+    if (provider === "openai") {
+      console.log("\n" + chalk.green("Get your OpenAI API key:"));
+      console.log(chalk.gray("1. Visit: https://platform.openai.com/api-keys"));
+      console.log(chalk.gray("2. Create a new API key"));
+      console.log(chalk.gray("3. Copy and paste the key below"));
+    } else if (provider === "anthropic") {
+      console.log("\n" + chalk.green("Get your Anthropic API key:"));
+      console.log(
+        chalk.gray("1. Visit: https://console.anthropic.com/settings/keys")
+      );
+      console.log(chalk.gray("2. Create a new API key"));
+      console.log(chalk.gray("3. Copy and paste the key below"));
+    }
 
-    const { apiKey } = await inquirer.prompt([
+    const answers = await inquirer.prompt([
+      {
+        type: "input",
+        name: "baseURL",
+        message: "Base URL of the server:",
+        default: defaults.baseURL,
+        when: () => provider === "ollama" || provider === "openai-compatible",
+        validate: (input: string) =>
+          /^https?:\/\//.test(input.trim()) ||
+          "Enter a URL starting with http:// or https://",
+      },
+      {
+        type: "input",
+        name: "model",
+        message: "Model name:",
+        default: defaults.model,
+      },
       {
         type: "password",
         name: "apiKey",
-        message: "Enter your OpenAI API Key:",
+        message: `Enter your ${getProviderLabel(provider)} API Key${
+          defaults.requiresApiKey ? "" : " (leave empty if not needed)"
+        }:`,
         mask: "*",
-        validate: (input) => {
+        when: () => provider !== "ollama",
+        validate: (input: string) => {
           const trimmed = input.trim();
+          if (!defaults.requiresApiKey) {
+            return true;
+          }
           if (trimmed === "") {
             return "API key cannot be empty";
           }
           if (trimmed.length < 20) {
             return "API key seems too short. Please check and try again.";
           }
-          if (!trimmed.startsWith("sk-")) {
+          if (provider === "openai" && !trimmed.startsWith("sk-")) {
             return "OpenAI API keys should start with 'sk-'. Please verify your key.";
           }
           return true;
@@ -701,10 +1536,16 @@ program
     ]);
 
     const config = new ConfigService();
-    config.saveApiKey(apiKey.trim());
+    config.saveProviderSettings(provider, {
+      model: answers.model.trim(),
+      ...(answers.baseURL ? { baseURL: answers.baseURL.trim() } : {}),
+      ...(answers.apiKey ? { apiKey: answers.apiKey.trim() } : {}),
+    });
 
     const configPath = path.join(os.homedir(), ".fynn", "config.json");
-    console.log(chalk.green(`✅ API Key saved successfully!`));
+    console.log(
+      chalk.green(`✅ ${getProviderLabel(provider)} settings saved successfully!`)
+    );
     console.log(chalk.gray(`   Config location: ${configPath}`));
     console.log(
       chalk.cyan(
@@ -713,4 +1554,1154 @@ program
     );
   });
 
+const configCommand = program
+  .command("config")
+  .description("Inspect and change the resolved configuration");
+
+configCommand
+  .command("list")
+  .description("List every resolved value and where it came from")
+  .action(() => {
+    const config = new ConfigService();
+    const projectFile = config.getProjectConfigPath();
+    console.log("\n" + chalk.cyan("⚙️  Resolved configuration"));
+    console.log(
+      chalk.gray(
+        `   Project config: ${projectFile || "none (.fynnrc or fynn.config.json)"}`
+      )
+    );
+    console.log(
+      chalk.cyan("───────────────────────────────────────────────")
+    );
+    config.listEntries().forEach((entry) => {
+      console.log(formatConfigEntry(entry));
+    });
+  });
+
+configCommand
+  .command("get <key>")
+  .description("Show a single resolved value, e.g. fynn config get model")
+  .action((key: string) => {
+    const entry = new ConfigService().getEntry(key);
+    if (!entry) {
+      console.log(chalk.yellow(`No value set for '${key}'`));
+      process.exit(1);
+    }
+    console.log(formatConfigEntry(entry));
+  });
+
+configCommand
+  .command("set <key> <value>")
+  .description(
+    "Set a value in ~/.fynn/config.json, or in the repository config with --project"
+  )
+  .option("--project", "Write to the repository's .fynnrc instead")
+  .action((key: string, value: string, options: { project?: boolean }) => {
+    try {
+      const file = new ConfigService().setValue(
+        key,
+        value,
+        options.project ? "project" : "global"
+      );
+      console.log(chalk.green(`✅ Set ${key} in ${file}`));
+    } catch (error) {
+      console.log(
+        chalk.red(
+          `✖ ${error instanceof Error ? error.message : "Unknown error"}`
+        )
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("split")
+  .description(
+    "Split the staged changes into several atomic conventional commits"
+  )
+  .option("--offline", "Group and describe the changes without an AI provider")
+  .option("--dry-run", "Show the proposed commits without creating them")
+  .option("--yes", "Create the proposed commits without asking")
+  .action(async (commandOptions) => {
+    // Options shared with the root command are parsed there, so merge both
+    const options = { ...program.opts(), ...commandOptions };
+    const spinner = ora("Analyzing staged changes...").start();
+
+    try {
+      const git = new GitService();
+      if (!(await git.isGitRepository())) {
+        spinner.fail("Not a git repository");
+        process.exit(1);
+      }
+
+      const diffs = await git.getStagedDiff();
+      if (diffs.length === 0) {
+        spinner.fail(
+          "No staged changes found. Stage the changes to split with: git add <files>"
+        );
+        process.exit(1);
+      }
+
+      const split = new SplitService();
+      let groups: CommitGroup[];
+      if (options.offline) {
+        groups = split.planOffline(diffs);
+      } else if (!new ConfigService().hasCredentials()) {
+        console.log(
+          chalk.yellow(
+            "\n⚠️  No AI provider credentials found, grouping the changes offline"
+          )
+        );
+        groups = split.planOffline(diffs);
+      } else {
+        spinner.text = "Grouping changes with AI...";
+        try {
+          groups = await split.planWithAI(diffs);
+        } catch (error) {
+          if (error instanceof SecretFileBlockedError) {
+            throw error;
+          }
+          console.log(
+            chalk.yellow(
+              `\n⚠️  AI grouping failed (${
+                error instanceof Error ? error.message : String(error)
+              }), falling back to the offline grouping`
+            )
+          );
+          groups = split.planOffline(diffs);
+        }
+      }
+
+      spinner.succeed(
+        `Proposed ${groups.length} commit(s) for ${diffs.length} staged file(s)`
+      );
+      const tickets = new ConfigService().getConfig().tickets;
+      const ticket = await getBranchTicket(git, tickets);
+      let plan: PlannedCommit[] | null = groups.map((group) => ({
+        files: group.files,
+        message: formatFullCommitMessage(
+          tickets && ticket
+            ? applyTicket(group.suggestion, ticket, tickets)
+            : group.suggestion
+        ),
+      }));
+
+      if (options.dryRun) {
+        printSplitPlan(plan);
+        console.log("\n" + chalk.blue("🔍 Dry run mode - no commit made"));
+        return;
+      }
+
+      if (!options.yes) {
+        plan = await reviewSplitPlan(plan);
+        if (!plan) {
+          console.log(chalk.yellow("Split cancelled"));
+          return;
+        }
+      }
+
+      const total = plan.length;
+      spinner.start("Committing changes...");
+      await split.commit(plan, diffs, (commit, index) => {
+        spinner.text = `Committed ${index + 1}/${total}: ${
+          commit.message.split("\n")[0]
+        }`;
+      });
+      spinner.succeed(`Created ${total} commit(s)`);
+      plan.forEach((commit) => {
+        console.log(chalk.green(`  ✓ ${commit.message.split("\n")[0]}`));
+      });
+    } catch (error) {
+      if (error instanceof SecretFileBlockedError) {
+        failWithSecretFiles(spinner, error);
+      }
+      if (error instanceof SplitAbortedError) {
+        spinner.fail(error.message);
+        process.exit(1);
+      }
+      spinner.fail(
+        `Error: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("lint [range]")
+  .description(
+    "Lint a commit message from stdin or --file, or every commit in a range such as origin/main..HEAD"
+  )
+  .option(
+    "--file <path>",
+    "Read the message from a file, e.g. .git/COMMIT_EDITMSG"
+  )
+  .option("--fix", "Apply automatic fixes to --file, or print the fixed message")
+  .action(async (range: string | undefined, options) => {
+    try {
+      const rules = new ConfigService().getCommitRules();
+      const linter = new CommitLinter(rules);
+
+      if (range) {
+        const commits = await new GitService().getCommitsInRange(range);
+        if (commits.length === 0) {
+          console.log(chalk.yellow(`No commits in ${range}`));
+          return;
+        }
+        const results = commits.map((commit) => ({
+          commit,
+          result: linter.lint(
+            commit.body ? `${commit.message}\n\n${commit.body}` : commit.message
+          ),
+        }));
+        results.forEach(({ commit, result }) => {
+          printLintResult(
+            result,
+            `${chalk.gray(commit.hash.substring(0, 7))} ${commit.message}`
+          );
+        });
+
+        const invalid = results.filter(({ result }) => !result.valid).length;
+        console.log(
+          chalk.cyan("\n───────────────────────────────────────────────")
+        );
+        if (invalid > 0) {
+          console.log(
+            chalk.red(
+              `✖ ${invalid} of ${commits.length} commit(s) break the commit conventions`
+            )
+          );
+          if (options.fix) {
+            console.log(
+              chalk.gray(
+                `💡 Commits in history cannot be fixed in place, rewrite them with: fynn reword ${range}`
+              )
+            );
+          }
+          process.exit(1);
+        }
+        console.log(chalk.green(`✔ All ${commits.length} commit(s) pass`));
+        return;
+      }
+
+      let message: string;
+      if (options.file) {
+        message = fs.readFileSync(options.file, "utf8");
+      } else if (!process.stdin.isTTY) {
+        message = await readStdin();
+      } else {
+        console.log(
+          chalk.yellow(
+            "Provide a message on stdin, a file with --file <path>, or a commit range"
+          )
+        );
+        console.log(chalk.gray('  echo "feat: add login" | fynn lint'));
+        console.log(chalk.gray("  fynn lint origin/main..HEAD"));
+        process.exit(1);
+      }
+
+      // A single message is about to be committed here, so it belongs to this branch's ticket
+      const ticket = await getBranchTicket(new GitService(), rules.tickets);
+      const result = ticket
+        ? new CommitLinter({ ...rules, ticket }).lint(message)
+        : linter.lint(message);
+      printLintResult(
+        result,
+        result.message.split("\n")[0] || "(empty message)"
+      );
+
+      if (options.fix && result.fixed) {
+        if (options.file) {
+          fs.writeFileSync(options.file, result.fixed + "\n");
+          console.log(chalk.green(`✅ Fixed ${options.file}`));
+        } else {
+          console.log("\n" + result.fixed);
+        }
+        const remaining = linter.lint(result.fixed);
+        if (!remaining.valid) {
+          process.exit(1);
+        }
+        return;
+      }
+
+      if (!result.valid) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.log(
+        chalk.red(
+          `✖ ${error instanceof Error ? error.message : "Unknown error"}`
+        )
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("changelog")
+  .description(
+    "Add the commits since the last tag to CHANGELOG.md, grouped by conventional commit type"
+  )
+  .option(
+    "--from <ref>",
+    "Start after this tag or commit (default: the tag before --to)"
+  )
+  .option("--to <ref>", "End at this tag or commit", "HEAD")
+  .option("--all", "Write a section for every tag, e.g. to start a changelog")
+  .option(
+    "--release <version>",
+    "Title the section with this version instead of Unreleased"
+  )
+  .option(
+    "--polish",
+    "Let the AI provider reword the entries, keeping sections and commits"
+  )
+  .option("--dry-run", "Print the sections instead of writing the file")
+  .option(
+    "--file <path>",
+    "Changelog to update (default: CHANGELOG.md in the repository or package root)"
+  )
+  .option(
+    "--package <name>",
+    "Only the commits and name@version tags of one workspace package"
+  )
+  .option("--packages", "Update the changelog of every workspace package")
+  .action(async (commandOptions) => {
+    // Options shared with the root command are parsed there, so merge both
+    const options = { ...program.opts(), ...commandOptions };
+    const spinner = ora("Reading commit history...").start();
+
+    try {
+      const git = new GitService();
+      if (!(await git.isGitRepository()) || !(await git.hasCommits())) {
+        spinner.fail("No commits found in this repository");
+        process.exit(1);
+      }
+      if (options.all && (options.from || options.release)) {
+        spinner.fail("--all cannot be combined with --from or --release");
+        process.exit(1);
+      }
+
+      if (
+        options.packages &&
+        (options.package || options.file || options.release)
+      ) {
+        spinner.fail(
+          "--packages cannot be combined with --package, --file or --release"
+        );
+        process.exit(1);
+      }
+
+      const root = await git.getRepositoryRoot();
+      const packages = loadWorkspacePackages();
+      const targets = options.packages
+        ? packages
+        : [options.package ? resolvePackage(packages, options.package) : undefined];
+      if (targets.length === 0) {
+        spinner.fail("No workspace packages found");
+        process.exit(1);
+      }
+
+      let changed = 0;
+      for (const pkg of targets) {
+        const changelog = new ChangelogService(pkg);
+        const releases = options.all
+          ? await changelog.buildAllReleases()
+          : [
+              await changelog.buildRelease({
+                from: options.from,
+                to: options.to,
+                version: options.release,
+              }),
+            ];
+        const notable = releases.filter(
+          (release) =>
+            release.sections.length > 0 || release.breakingChanges.length > 0
+        );
+        if (notable.length === 0) {
+          // With --packages, packages without commits in the range are simply skipped
+          if (options.packages) continue;
+          spinner.fail(
+            options.all
+              ? "No commits found to generate changelog"
+              : `No commits found between ${releases[0].from ?? "the first commit"} and ${releases[0].to}`
+          );
+          process.exit(1);
+        }
+        changed++;
+
+        let rendered = notable.map((release) => ({
+          version: release.version,
+          markdown: changelog.renderRelease(release),
+        }));
+        if (options.polish) {
+          rendered = await polishChangelogEntries(rendered, spinner);
+        }
+
+        const file = options.file
+          ? path.resolve(options.file)
+          : path.join(root, pkg?.dir ?? "", "CHANGELOG.md");
+        if (options.dryRun) {
+          spinner.stop();
+          if (options.packages) {
+            console.log(chalk.cyan(`\n${path.relative(root, file)}\n`));
+          }
+          console.log(
+            rendered.map((entry) => entry.markdown.trimEnd()).join("\n\n")
+          );
+          continue;
+        }
+
+        const { written, skipped } = changelog.prepend(
+          file,
+          rendered,
+          Boolean(options.release)
+        );
+        if (written.length > 0) {
+          spinner.succeed(`Added ${written.join(", ")} to ${file}`);
+        } else {
+          spinner.info(`${file} is already up to date`);
+        }
+        if (skipped.length > 0) {
+          console.log(
+            chalk.gray(
+              `Already in the changelog, left unchanged: ${skipped.join(", ")}`
+            )
+          );
+        }
+        if (written.length === 1 && !options.packages) {
+          printChangelogPreview(
+            rendered.find((entry) => entry.version === written[0])!.markdown
+          );
+        }
+        spinner.start();
+      }
+
+      if (changed === 0) {
+        spinner.info("No package has commits in this range");
+      } else {
+        spinner.stop();
+      }
+    } catch (error) {
+      spinner.fail(
+        `Changelog generation failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("release")
+  .description(
+    "Bump the version from the commits since the last tag, update the changelog, commit and tag"
+  )
+  .option(
+    "--as <bump>",
+    "Force the bump (major, minor, patch) or an exact version such as 2.0.0"
+  )
+  .option(
+    "--prerelease [id]",
+    "Cut a pre-release such as 1.2.0-rc.1 (default id: rc)"
+  )
+  .option("--dry-run", "Show the release plan without changing anything")
+  .option("--yes", "Release without asking for confirmation")
+  .option(
+    "--file <path>",
+    "Changelog to update (default: CHANGELOG.md in the repository or package root)"
+  )
+  .option(
+    "--package <name>",
+    "Release one workspace package, tagged name@version"
+  )
+  .action(async (commandOptions) => {
+    // Options shared with the root command are parsed there, so merge both
+    const options = { ...program.opts(), ...commandOptions };
+    const spinner = ora("Planning the release...").start();
+
+    try {
+      const git = new GitService();
+      if (!(await git.isGitRepository()) || !(await git.hasCommits())) {
+        spinner.fail("No commits found in this repository");
+        process.exit(1);
+      }
+
+      const root = await git.getRepositoryRoot();
+      const pkg = options.package
+        ? resolvePackage(loadWorkspacePackages(), options.package)
+        : undefined;
+      const file = options.file
+        ? path.resolve(options.file)
+        : path.join(root, pkg?.dir ?? "", "CHANGELOG.md");
+      const release = new ReleaseService();
+      const plan = await release.plan({
+        releaseAs: options.as,
+        preid:
+          options.prerelease === true ? "rc" : options.prerelease || undefined,
+        pkg,
+      });
+      spinner.stop();
+      printReleasePlan(plan, path.relative(root, file));
+
+      if (options.dryRun) {
+        console.log("\n" + chalk.blue("🔍 Dry run mode - nothing was changed"));
+        return;
+      }
+
+      if (!options.yes) {
+        const { confirm } = await inquirer.prompt([
+          {
+            type: "confirm",
+            name: "confirm",
+            message: `Release ${plan.tag}?`,
+            default: true,
+          },
+        ]);
+        if (!confirm) {
+          console.log(chalk.yellow("Release cancelled"));
+          return;
+        }
+      }
+
+      spinner.start(`Releasing ${plan.tag}...`);
+      await release.apply(plan, file);
+      spinner.succeed(`Released ${plan.tag}`);
+      console.log(chalk.gray("Publish it with: git push --follow-tags"));
+    } catch (error) {
+      spinner.fail(
+        `Release failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("pr [base]")
+  .description(
+    "Write a pull request description for the current branch against its base branch"
+  )
+  .option(
+    "--offline",
+    "Describe the branch from its commits only, without an AI provider"
+  )
+  .option("-o, --output <file>", "Write the description to a file instead of stdout")
+  .option("--json", "Print the title, body, base and commits as JSON")
+  .option("--no-template", "Ignore the repository's pull request template")
+  .action(async (base: string | undefined, commandOptions) => {
+    // Options shared with the root command are parsed there, so merge both
+    const options = { ...program.opts(), ...commandOptions };
+    // stdout is reserved for the description, progress goes to stderr
+    const spinner = ora({
+      text: "Collecting the branch's commits...",
+      stream: process.stderr,
+    }).start();
+
+    try {
+      const git = new GitService();
+      if (!(await git.isGitRepository()) || !(await git.hasCommits())) {
+        spinner.fail("No commits found in this repository");
+        process.exit(1);
+      }
+
+      const service = new PullRequestService();
+      const context = await service.collect(base);
+      let text: PullRequestText;
+      if (options.offline) {
+        text = service.summarizeOffline(context);
+      } else if (!new ConfigService().hasCredentials()) {
+        spinner.warn(
+          "No AI provider credentials found, describing the branch from its commits"
+        );
+        text = service.summarizeOffline(context);
+      } else {
+        spinner.start("Summarizing the changes with AI...");
+        try {
+          text = await service.summarizeWithAI(context);
+        } catch (error) {
+          if (error instanceof SecretFileBlockedError) {
+            throw error;
+          }
+          spinner.warn(
+            `AI summary failed (${
+              error instanceof Error ? error.message : String(error)
+            }), describing the branch from its commits`
+          );
+          text = service.summarizeOffline(context);
+        }
+      }
+
+      const description = await service.render(
+        context,
+        text,
+        options.template
+      );
+      const output = options.json
+        ? JSON.stringify(description, null, 2) + "\n"
+        : description.body;
+      spinner.succeed(
+        `Described ${description.commits.length} commit(s) on ${description.head} against ${description.base}${
+          description.template ? ` using ${description.template}` : ""
+        }`
+      );
+
+      if (options.output) {
+        fs.writeFileSync(options.output, output);
+        console.error(chalk.green(`📝 Written to ${options.output}`));
+        if (!options.json) {
+          console.error(chalk.gray(`Title: ${description.title}`));
+        }
+      } else {
+        if (!options.json) {
+          console.error(chalk.gray(`Title: ${description.title}\n`));
+        }
+        process.stdout.write(output);
+      }
+    } catch (error) {
+      if (error instanceof SecretFileBlockedError) {
+        failWithSecretFiles(spinner, error);
+      }
+      spinner.fail(
+        `Error: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("squash [base]")
+  .description(
+    "Write one conventional commit message for the commits on this branch, and optionally squash them"
+  )
+  .option(
+    "--offline",
+    "Derive the message from the commits only, without an AI provider"
+  )
+  .option("--apply", "Squash the commits into one with the generated message")
+  .option("--yes", "With --apply, squash without asking for confirmation")
+  .action(async (base: string | undefined, commandOptions) => {
+    // Options shared with the root command are parsed there, so merge both
+    const options = { ...program.opts(), ...commandOptions };
+    // Without --apply stdout carries only the message, progress goes to stderr
+    const spinner = ora({
+      text: "Collecting the branch's commits...",
+      stream: process.stderr,
+    }).start();
+
+    try {
+      const git = new GitService();
+      if (!(await git.isGitRepository()) || !(await git.hasCommits())) {
+        spinner.fail("No commits found in this repository");
+        process.exit(1);
+      }
+
+      const squash = new SquashService();
+      const context = await squash.collect(base);
+      let suggestion: CommitSuggestion;
+      if (options.offline) {
+        suggestion = squash.summarizeOffline(context);
+      } else if (!new ConfigService().hasCredentials()) {
+        spinner.warn(
+          "No AI provider credentials found, deriving the message from the commits"
+        );
+        suggestion = squash.summarizeOffline(context);
+      } else {
+        spinner.start("Summarizing the branch with AI...");
+        try {
+          suggestion = await squash.summarizeWithAI(context);
+        } catch (error) {
+          if (error instanceof SecretFileBlockedError) {
+            throw error;
+          }
+          spinner.warn(
+            `AI summary failed (${
+              error instanceof Error ? error.message : String(error)
+            }), deriving the message from the commits`
+          );
+          suggestion = squash.summarizeOffline(context);
+        }
+      }
+
+      let message = await squash.buildMessage(context, suggestion);
+      spinner.succeed(
+        `Squash message for ${context.commits.length} commit(s) on ${context.branch} since ${context.base}`
+      );
+
+      if (!options.apply) {
+        process.stdout.write(message + "\n");
+        return;
+      }
+
+      console.log("\n" + chalk.white(message) + "\n");
+      if (!options.yes) {
+        for (;;) {
+          const { action } = await inquirer.prompt([
+            {
+              type: "list",
+              name: "action",
+              message: `Squash ${context.commits.length} commit(s) into one?`,
+              choices: [
+                { name: "Squash with this message", value: "squash" },
+                { name: "Edit the message", value: "edit" },
+                { name: "Cancel", value: "cancel" },
+              ],
+            },
+          ]);
+          if (action === "cancel") {
+            console.log(chalk.yellow("Squash cancelled"));
+            return;
+          }
+          if (action === "squash") break;
+
+          const { edited } = await inquirer.prompt([
+            {
+              type: "editor",
+              name: "edited",
+              message: "Edit the commit message:",
+              default: message,
+            },
+          ]);
+          message = edited.trim() || message;
+          console.log("\n" + chalk.white(message) + "\n");
+        }
+      }
+
+      spinner.start("Squashing...");
+      const backup = await squash.apply(context, message);
+      spinner.succeed(`Squashed ${context.commits.length} commit(s) into one`);
+      console.log(
+        chalk.gray(`Previous history saved as ${backup}, restore it with:`)
+      );
+      console.log(chalk.gray(`  git reset --hard ${backup}`));
+      console.log(
+        chalk.gray(
+          "If the branch was pushed, update it with: git push --force-with-lease"
+        )
+      );
+    } catch (error) {
+      if (error instanceof SecretFileBlockedError) {
+        failWithSecretFiles(spinner, error);
+      }
+      spinner.fail(
+        `Squash failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("reword <range>")
+  .description(
+    "Rewrite the messages of commits in a range that break the commit conventions"
+  )
+  .option(
+    "--offline",
+    "Generate the new messages locally, without an AI provider"
+  )
+  .option("--dry-run", "Show the new messages without rewriting anything")
+  .option("--yes", "Rewrite without reviewing the new messages")
+  .option("--force", "Also rewrite commits that are already on the upstream")
+  .action(async (range: string, commandOptions) => {
+    // Options shared with the root command are parsed there, so merge both
+    const options = { ...program.opts(), ...commandOptions };
+    const spinner = ora("Checking the commit messages...").start();
+
+    try {
+      const git = new GitService();
+      if (!(await git.isGitRepository()) || !(await git.hasCommits())) {
+        spinner.fail("No commits found in this repository");
+        process.exit(1);
+      }
+
+      const reword = new RewordService();
+      const { total, candidates } = await reword.findCandidates(range);
+      if (candidates.length === 0) {
+        spinner.succeed(
+          `All ${total} commit(s) in ${range} follow the commit conventions`
+        );
+        return;
+      }
+
+      let rewordings: Rewording[] = [];
+      for (const candidate of candidates) {
+        spinner.text = `Rewording ${rewordings.length + 1}/${
+          candidates.length
+        }: ${candidate.commit.message}`;
+        rewordings.push(await reword.suggest(candidate, options.offline));
+      }
+      spinner.succeed(
+        `${candidates.length} of ${total} commit(s) break the commit conventions`
+      );
+      printRewordings(rewordings);
+
+      if (options.dryRun) {
+        console.log("\n" + chalk.blue("🔍 Dry run mode - nothing was rewritten"));
+        return;
+      }
+
+      if (!options.yes) {
+        const reviewed = await reviewRewordings(rewordings);
+        if (!reviewed) {
+          console.log(chalk.yellow("Reword cancelled"));
+          return;
+        }
+        rewordings = reviewed;
+      }
+
+      spinner.start("Rewriting history...");
+      const backup = await reword.apply(rewordings, options.force);
+      spinner.succeed(`Reworded ${rewordings.length} commit(s)`);
+      console.log(
+        chalk.gray(`Previous history saved as ${backup}, restore it with:`)
+      );
+      console.log(chalk.gray(`  git reset --hard ${backup}`));
+      if (options.force) {
+        console.log(
+          chalk.gray("Update the remote with: git push --force-with-lease")
+        );
+      }
+    } catch (error) {
+      spinner.fail(
+        `Reword failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("test-gaps [range]")
+  .description(
+    "List changed functions and exports without test changes, and new lines without coverage"
+  )
+  .option(
+    "--coverage <file>",
+    "lcov or istanbul JSON report to read, instead of looking in coverage/"
+  )
+  .option("--json", "Print the gaps as JSON")
+  .option("--fail", "Exit with code 1 when there are gaps, e.g. in CI")
+  .action(async (range: string | undefined, options) => {
+    try {
+      const git = new GitService();
+      if (!(await git.isGitRepository()) || !(await git.hasCommits())) {
+        console.error(chalk.red("✖ No commits found in this repository"));
+        process.exit(1);
+      }
+
+      const service = new TestGapService();
+      const report = await service.analyze(
+        await service.resolveSpec(range),
+        options.coverage
+      );
+      if (options.json) {
+        process.stdout.write(JSON.stringify(report, null, 2) + "\n");
+      } else if (report.files.length === 0) {
+        console.log(
+          chalk.yellow(`No changed source files in ${report.target}`)
+        );
+      } else {
+        printTestGaps(report);
+        console.log(
+          report.gaps > 0
+            ? chalk.red(
+                `✖ ${report.gaps} of ${report.files.length} changed source file(s) have test gaps`
+              )
+            : chalk.green(
+                `✔ All ${report.files.length} changed source file(s) come with tests`
+              )
+        );
+      }
+
+      if (options.fail && report.gaps > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `✖ ${error instanceof Error ? error.message : "Unknown error"}`
+        )
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("review [rev]")
+  .description(
+    "Review the staged changes with AI and fail on issues at or above a severity"
+  )
+  .option("--staged", "Review the staged changes (the default)")
+  .option(
+    "--fail-on <severity>",
+    `Lowest severity that fails the review (${REVIEW_GATES.join(", ")}), default: review.failOn or high`
+  )
+  .option("--ask", "Show the blocking issues and ask whether to continue anyway")
+  .action(async (rev: string | undefined, commandOptions) => {
+    const options = { ...program.opts(), ...commandOptions };
+    const spinner = ora("Collecting the staged changes...").start();
+
+    try {
+      const git = new GitService();
+      if (!(await git.isGitRepository())) {
+        spinner.fail("Not a git repository");
+        process.exit(1);
+      }
+      if (options.staged && rev) {
+        spinner.fail("Pass either --staged or a revision, not both");
+        process.exit(1);
+      }
+
+      const config = new ConfigService();
+      const gate = resolveReviewGate(
+        options.failOn ?? config.getConfig().review?.failOn
+      );
+      const spec = rev ? parseDiffSpec(rev) : parseDiffSpec("staged");
+      const target = await git.describeDiff(spec);
+      if ((await git.getDiff(spec)).length === 0) {
+        spinner.info(`No changes to review in ${target.label}`);
+        return;
+      }
+      if (!config.hasCredentials()) {
+        spinner.fail(
+          `${getProviderLabel(config.getProvider())} credentials not found`
+        );
+        console.log(
+          chalk.cyan("\nRun: ") +
+            chalk.white("fynn setup") +
+            chalk.cyan(" to choose a provider and save its credentials")
+        );
+        process.exit(1);
+      }
+
+      spinner.text = `Reviewing ${target.label} with AI...`;
+      const review = await new AIService().performCodeReview(spec);
+      if (!review) {
+        spinner.fail("The AI provider returned no review");
+        process.exit(1);
+      }
+      spinner.succeed("Code review complete!");
+      printCodeReview(review);
+
+      const blocking = blockingIssues(review, gate);
+      if (blocking.length === 0) {
+        console.log(
+          chalk.green(`\n✔ No issues of ${gate} severity or above`)
+        );
+        return;
+      }
+
+      console.log(
+        chalk.red(
+          `\n✖ ${blocking.length} issue(s) of ${gate} severity or above`
+        )
+      );
+      if (options.ask && process.stdin.isTTY) {
+        const { proceed } = await inquirer.prompt([
+          {
+            type: "confirm",
+            name: "proceed",
+            message: "Acknowledge these issues and continue anyway?",
+            default: false,
+          },
+        ]);
+        if (proceed) {
+          console.log(chalk.yellow("⚠️  Continuing with acknowledged issues"));
+          return;
+        }
+      }
+      process.exit(1);
+    } catch (error) {
+      if (error instanceof SecretFileBlockedError) {
+        failWithSecretFiles(spinner, error);
+      }
+      spinner.fail(
+        `Error: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+      process.exit(1);
+    }
+  });
+
+const hookCommand = program
+  .command("hook")
+  .description(
+    "Manage the prepare-commit-msg, commit-msg and pre-commit git hooks"
+  );
+
+hookCommand
+  .command("install")
+  .description(
+    "Install the hooks into .git/hooks, or into an existing husky or lefthook setup"
+  )
+  .option(
+    "--pre-commit",
+    "Also install the pre-commit hook that reviews the staged changes with AI"
+  )
+  .action(async (options) => {
+    const hooks: HookName[] = options.preCommit
+      ? [...DEFAULT_HOOKS, "pre-commit"]
+      : DEFAULT_HOOKS;
+    try {
+      printHookChanges(await new HookService().install(hooks));
+    } catch (error) {
+      console.log(
+        chalk.red(
+          `✖ ${error instanceof Error ? error.message : "Unknown error"}`
+        )
+      );
+      process.exit(1);
+    }
+  });
+
+hookCommand
+  .command("uninstall")
+  .description("Remove the hooks installed by fynn")
+  .action(async () => {
+    try {
+      printHookChanges(await new HookService().uninstall());
+    } catch (error) {
+      console.log(
+        chalk.red(
+          `✖ ${error instanceof Error ? error.message : "Unknown error"}`
+        )
+      );
+      process.exit(1);
+    }
+  });
+
+hookCommand
+  .command("run <hook> [file] [source] [sha]", { hidden: true })
+  .description("Entry point called by the installed git hooks")
+  .action(async (hook: string, file: string | undefined, source?: string) => {
+    const hooks = new HookService();
+
+    if (!HOOK_NAMES.includes(hook as HookName)) {
+      console.error(
+        chalk.red(
+          `✖ Unknown hook '${hook}'. Use one of: ${HOOK_NAMES.join(", ")}`
+        )
+      );
+      process.exit(1);
+    }
+
+    if (hook === "pre-commit") {
+      try {
+        const result = await hooks.reviewStagedChanges();
+        if (result && result.blocking.length > 0) {
+          printCodeReview(result.review);
+          console.error(
+            chalk.red(
+              `\nfynn: ${result.blocking.length} issue(s) of ${result.gate} severity or above, the commit was stopped`
+            )
+          );
+          console.error(
+            chalk.gray(
+              "\n💡 Fix them, review interactively with fynn review --ask, or skip the check with git commit --no-verify"
+            )
+          );
+          process.exit(1);
+        }
+      } catch (error) {
+        if (error instanceof SecretFileBlockedError) {
+          console.error(
+            chalk.red(
+              "fynn: the staged changes include files that look like secret stores:"
+            )
+          );
+          error.files.forEach((blocked) => {
+            console.error(chalk.yellow(`  • ${blocked}`));
+          });
+          process.exit(1);
+        }
+        // No provider or a failed review must not stop the commit
+        console.error(
+          chalk.yellow(
+            `fynn: the review was skipped (${
+              error instanceof Error ? error.message : String(error)
+            })`
+          )
+        );
+      }
+      process.exit(0);
+    }
+
+    if (!file) {
+      console.error(chalk.red(`✖ The ${hook} hook needs the message file`));
+      process.exit(1);
+    }
+
+    if (hook === "prepare-commit-msg") {
+      try {
+        await hooks.prepareCommitMessage(file, source);
+      } catch {
+        // Never block a commit because the suggestion could not be made
+      }
+      // A provider request that lost the race against the timeout must not keep git waiting
+      process.exit(0);
+    }
+
+    if (hook === "commit-msg") {
+      let result: LintResult | null;
+      try {
+        result = await hooks.validateCommitMessage(file);
+      } catch (error) {
+        // The message could not be checked, say why instead of failing with a stack trace
+        console.error(
+          chalk.red(
+            `fynn: the commit message could not be checked: ${
+              error instanceof Error ? error.message : String(error)
+            }. Fix that, or skip the check with git commit --no-verify`
+          )
+        );
+        process.exit(1);
+      }
+      if (result && !result.valid) {
+        printLintResult(
+          result,
+          "fynn: the commit message was rejected",
+          console.error
+        );
+        console.error(
+          chalk.gray(
+            "\n💡 Fix the message, or skip the check with git commit --no-verify"
+          )
+        );
+        process.exit(1);
+      }
+      // Warnings such as a missing ticket are shown, but never stop the commit
+      if (result && result.issues.length > 0) {
+        printLintResult(
+          result,
+          "fynn: the commit message has warnings",
+          console.error
+        );
+      }
+      return;
+    }
+  });
+
+program.hook("preAction", () => {
+  const { provider, model } = program.opts();
+  if (provider && !PROVIDER_NAMES.includes(provider)) {
+    console.log(
+      chalk.red(
+        `✖ Unknown provider '${provider}'. Use one of: ${PROVIDER_NAMES.join(
+          ", "
+        )}`
+      )
+    );
+    process.exit(1);
+  }
+  ConfigService.setCliOverrides({ provider, model });
+});
+
+program.hook("postAction", () => {
+  if (program.opts().showRedactions) {
+    printRedactionReport();
+  }
+});
+
 program.parse();
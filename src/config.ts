@@ -1,39 +1,456 @@
 import * as fs from "fs"
 import * as path from "path"
 import * as os from "os"
+import {
+  COMMIT_TYPES,
+  type CommitRules,
+  type CommitType,
+  type ConfigEntry,
+  type ConfigSource,
+  type FynnConfig,
+  type ProviderName,
+  type ProviderSettings,
+} from "./Types/types"
+import { InvalidConfigError } from "./errors"
+import { isPlainObject, readJson } from "./json"
+import { PROVIDER_DEFAULTS, hasProviderCredentials, isProviderName } from "./providers"
 
 const CONFIG_DIR = path.join(os.homedir(), ".fynn")
 const CONFIG_FILE = path.join(CONFIG_DIR, "config.json")
+const PROJECT_CONFIG_FILES = [".fynnrc", "fynn.config.json"]
 
-interface Config {
-  apiKey?: string
+type ProviderOverrides = Partial<Omit<ProviderSettings, "provider">>
+
+type ConfigValueKind = "string" | "number" | "boolean" | "string[]" | "object"
+
+export const CONFIG_KEYS: Record<keyof FynnConfig, ConfigValueKind> = {
+  apiKey: "string",
+  provider: "string",
+  model: "string",
+  temperature: "number",
+  baseURL: "string",
+  providers: "object",
+  types: "string[]",
+  scopes: "string[]",
+  maxSubjectLength: "number",
+  ignorePaths: "string[]",
+  maxPromptTokens: "number",
+  redaction: "object",
+  summarizeLargeDiffs: "boolean",
+  language: "string",
+  prompts: "object",
+  versionFiles: "string[]",
+  tagPrefix: "string",
+  links: "object",
+  workspaces: "string[]",
+  baseBranch: "string",
+  tickets: "object",
+  signoff: "boolean",
+  testFramework: "string",
+  testTimeout: "number",
+  review: "object",
+}
+
+const DEFAULT_CONFIG: FynnConfig = {
+  provider: "openai",
+  maxSubjectLength: 50,
+  ignorePaths: [],
+  maxPromptTokens: 12000,
+  summarizeLargeDiffs: true,
+}
+
+// Project files are committed and come with any repository you clone. They must not be able to
+// send your credentials and diffs to another host, or loosen what is redacted or blocked before
+// a diff leaves the machine; extra patterns and deny-listed paths only tighten it and stay allowed
+const GLOBAL_ONLY_KEYS = [
+  "apiKey",
+  "provider",
+  "baseURL",
+  "providers.*.apiKey",
+  "providers.*.baseURL",
+  "redaction.enabled",
+  "redaction.emails",
+  "redaction.entropyThreshold",
+  "redaction.allowPaths",
+]
+
+const ENV_KEYS: Array<[string, keyof FynnConfig]> = [
+  ["FYNN_PROVIDER", "provider"],
+  ["FYNN_MODEL", "model"],
+  ["FYNN_TEMPERATURE", "temperature"],
+  ["FYNN_BASE_URL", "baseURL"],
+  ["FYNN_LANGUAGE", "language"],
+  ["FYNN_MAX_SUBJECT_LENGTH", "maxSubjectLength"],
+  ["FYNN_MAX_PROMPT_TOKENS", "maxPromptTokens"],
+]
+
+interface ConfigLayer {
+  source: ConfigSource
+  file?: string
+  values: FynnConfig
+}
+
+let cliOverrides: FynnConfig = {}
+
+
+function deepMerge(target: Record<string, unknown>, source: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...target }
+  for (const [key, value] of Object.entries(source)) {
+    if (value === undefined) continue
+    result[key] = isPlainObject(value) && isPlainObject(result[key]) ? deepMerge(result[key] as Record<string, unknown>, value) : value
+  }
+  return result
+}
+
+function flatten(values: Record<string, unknown>, prefix = ""): Array<[string, unknown]> {
+  const entries: Array<[string, unknown]> = []
+  for (const [key, value] of Object.entries(values)) {
+    if (value === undefined) continue
+    const fullKey = prefix ? `${prefix}.${key}` : key
+    if (isPlainObject(value)) {
+      entries.push(...flatten(value, fullKey))
+    } else {
+      entries.push([fullKey, value])
+    }
+  }
+  return entries
+}
+
+function isGlobalOnlyKey(key: string): boolean {
+  const parts = key.split(".")
+  return GLOBAL_ONLY_KEYS.some((pattern) => {
+    const segments = pattern.split(".")
+    return segments.length === parts.length && segments.every((segment, index) => segment === "*" || segment === parts[index])
+  })
+}
+
+function withoutGlobalOnlyKeys(values: Record<string, unknown>, prefix = ""): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(values)) {
+    const fullKey = prefix ? `${prefix}.${key}` : key
+    if (isGlobalOnlyKey(fullKey)) continue
+    result[key] = isPlainObject(value) ? withoutGlobalOnlyKeys(value, fullKey) : value
+  }
+  return result
+}
+
+/**
+ * Compiles the user's regular expressions once, so a typo fails with its config key instead of
+ * a SyntaxError from wherever the pattern is used first.
+ */
+function validatePatterns(config: FynnConfig, under?: string): void {
+  const patterns: Array<[string, unknown]> = [
+    ...(config.redaction?.patterns ?? []).map((pattern, index): [string, unknown] => [`redaction.patterns.${index}`, pattern]),
+    ["tickets.pattern", config.tickets?.pattern],
+  ]
+  for (const [key, pattern] of patterns) {
+    if (pattern === undefined || (under && key !== under && !key.startsWith(`${under}.`))) continue
+    try {
+      new RegExp(String(pattern))
+    } catch (error) {
+      throw new InvalidConfigError(
+        key,
+        `'${pattern}' is not a valid regular expression (${error instanceof Error ? error.message : String(error)})`,
+      )
+    }
+  }
+}
+
+function coerceValue(kind: ConfigValueKind, raw: string): unknown {
+  switch (kind) {
+    case "number": {
+      const parsed = Number(raw)
+      if (isNaN(parsed)) {
+        throw new Error(`Expected a number but got '${raw}'`)
+      }
+      return parsed
+    }
+    case "boolean":
+      if (!["true", "false"].includes(raw)) {
+        throw new Error(`Expected true or false but got '${raw}'`)
+      }
+      return raw === "true"
+    case "string[]":
+      if (raw.trim().startsWith("[")) {
+        return JSON.parse(raw)
+      }
+      return raw
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean)
+    case "object":
+      return JSON.parse(raw)
+    default:
+      return raw
+  }
+}
+
+// Nested keys have no declared kind, so JSON literals (numbers, booleans, arrays) are parsed as such
+function inferValue(raw: string): unknown {
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return raw
+  }
 }
 
 export class ConfigService {
+  static setCliOverrides(overrides: FynnConfig): void {
+    cliOverrides = overrides
+  }
+
   private ensureConfigDir(): void {
     if (!fs.existsSync(CONFIG_DIR)) {
       fs.mkdirSync(CONFIG_DIR, { recursive: true })
     }
   }
 
-  saveApiKey(apiKey: string): void {
+  private readConfigFile(file: string): FynnConfig {
+    const values = readJson(file)
+    return isPlainObject(values) ? (values as FynnConfig) : {}
+  }
+
+  private readConfig(): FynnConfig {
+    return this.readConfigFile(CONFIG_FILE)
+  }
+
+  private writeConfig(config: FynnConfig): void {
     this.ensureConfigDir()
-    const config: Config = { apiKey }
     fs.writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2), "utf8")
   }
 
-  getApiKey(): string | null {
-    if (process.env.OPENAI_API_KEY) {
-      return process.env.OPENAI_API_KEY
+  getProjectRoot(): string | null {
+    let dir = process.cwd()
+    while (true) {
+      if (fs.existsSync(path.join(dir, ".git"))) {
+        return dir
+      }
+      const parent = path.dirname(dir)
+      if (parent === dir) {
+        return null
+      }
+      dir = parent
     }
-    try {
-      if (fs.existsSync(CONFIG_FILE)) {
-        const config: Config = JSON.parse(fs.readFileSync(CONFIG_FILE, "utf8"))
-        return config.apiKey || null
+  }
+
+  getProjectConfigPath(): string | null {
+    const root = this.getProjectRoot()
+    if (!root) {
+      return null
+    }
+    for (const name of PROJECT_CONFIG_FILES) {
+      const candidate = path.join(root, name)
+      if (fs.existsSync(candidate)) {
+        return candidate
       }
-    } catch (error) {
+    }
+    return null
+  }
+
+  private readProjectConfig(): FynnConfig {
+    const file = this.getProjectConfigPath()
+    if (!file) {
+      return {}
+    }
+    return withoutGlobalOnlyKeys(this.readConfigFile(file) as Record<string, unknown>) as FynnConfig
+  }
+
+  private readEnvConfig(): FynnConfig {
+    const values: Record<string, unknown> = {}
+    for (const [envName, key] of ENV_KEYS) {
+      const raw = process.env[envName]
+      if (raw === undefined || raw === "") continue
+      try {
+        values[key] = coerceValue(CONFIG_KEYS[key], raw)
+      } catch {
+        continue
+      }
+    }
+    return values as FynnConfig
+  }
+
+  private getLayers(): ConfigLayer[] {
+    return [
+      { source: "default", values: DEFAULT_CONFIG },
+      { source: "global", file: CONFIG_FILE, values: this.readConfig() },
+      { source: "project", file: this.getProjectConfigPath() || undefined, values: this.readProjectConfig() },
+      { source: "env", values: this.readEnvConfig() },
+      { source: "cli", values: cliOverrides },
+    ]
+  }
+
+  /**
+   * Resolves the effective configuration: defaults, then ~/.fynn/config.json, then the
+   * repository's .fynnrc or fynn.config.json, then FYNN_* environment variables, then CLI flags.
+   */
+  getConfig(): FynnConfig {
+    const config = this.mergeLayers()
+    validatePatterns(config)
+    return config
+  }
+
+  // Unvalidated, so `fynn config get` and `set` still work to repair a broken value
+  private mergeLayers(): FynnConfig {
+    return this.getLayers().reduce<Record<string, unknown>>(
+      (merged, layer) => deepMerge(merged, layer.values as Record<string, unknown>),
+      {},
+    ) as FynnConfig
+  }
+
+  listEntries(): ConfigEntry[] {
+    const entries = new Map<string, ConfigEntry>()
+    for (const layer of this.getLayers()) {
+      for (const [key, value] of flatten(layer.values as Record<string, unknown>)) {
+        entries.set(key, { key, value, source: layer.source, file: layer.file })
+      }
+    }
+    return Array.from(entries.values()).sort((a, b) => a.key.localeCompare(b.key))
+  }
+
+  getEntry(key: string): ConfigEntry | null {
+    const entries = this.listEntries().filter((entry) => entry.key === key || entry.key.startsWith(`${key}.`))
+    if (entries.length === 0) {
       return null
     }
+    const exact = entries.find((entry) => entry.key === key)
+    if (exact) {
+      return exact
+    }
+    const value = key.split(".").reduce<unknown>((current, part) => (isPlainObject(current) ? current[part] : undefined), this.mergeLayers())
+    return { key, value, source: entries[entries.length - 1].source }
+  }
+
+  setValue(key: string, rawValue: string, target: "global" | "project"): string {
+    const [topLevel] = key.split(".")
+    if (!(topLevel in CONFIG_KEYS)) {
+      throw new Error(`Unknown config key '${topLevel}'. Known keys: ${Object.keys(CONFIG_KEYS).join(", ")}`)
+    }
+    const value = key.includes(".") ? inferValue(rawValue) : coerceValue(CONFIG_KEYS[topLevel as keyof FynnConfig], rawValue)
+
+    if (topLevel === "provider" && !isProviderName(String(value))) {
+      throw new Error(`Unknown provider '${value}'`)
+    }
+    const written = isPlainObject(value) ? flatten(value, key).map(([fullKey]) => fullKey) : [key]
+    const globalOnly = written.find(isGlobalOnlyKey)
+    if (target === "project" && globalOnly) {
+      throw new Error(`'${globalOnly}' cannot be stored in the project config. Use the global config instead.`)
+    }
+
+    const file = target === "global" ? CONFIG_FILE : this.getProjectConfigPath() || this.getNewProjectConfigPath()
+    const config = this.readConfigFile(file) as Record<string, unknown>
+    const parts = key.split(".")
+    let node = config
+    for (const part of parts.slice(0, -1)) {
+      if (!isPlainObject(node[part])) {
+        node[part] = {}
+      }
+      node = node[part] as Record<string, unknown>
+    }
+    node[parts[parts.length - 1]] = value
+    // Only the value being set, so a broken one can be repaired one key at a time
+    validatePatterns(config as FynnConfig, key)
+
+    if (target === "global") {
+      this.writeConfig(config as FynnConfig)
+    } else {
+      fs.writeFileSync(file, JSON.stringify(config, null, 2) + "\n", "utf8")
+    }
+    return file
+  }
+
+  private getNewProjectConfigPath(): string {
+    const root = this.getProjectRoot()
+    if (!root) {
+      throw new Error("Not inside a git repository, cannot write a project config")
+    }
+    return path.join(root, PROJECT_CONFIG_FILES[0])
+  }
+
+  saveApiKey(apiKey: string): void {
+    this.saveProviderSettings("openai", { apiKey })
+  }
+
+  saveProviderSettings(provider: ProviderName, settings: ProviderOverrides): void {
+    const config = this.readConfig()
+    config.provider = provider
+    config.providers = {
+      ...config.providers,
+      [provider]: { ...config.providers?.[provider], ...settings },
+    }
+    if (provider === "openai" && settings.apiKey) {
+      delete config.apiKey
+    }
+    this.writeConfig(config)
+  }
+
+  /**
+   * Configured commit vocabulary. Plain strings pick a built-in type (or declare a bare
+   * custom one), objects add or override a type's description, emoji and changelog section.
+   */
+  getCommitTypes(): CommitType[] {
+    const { types } = this.getConfig()
+    if (!types || types.length === 0) {
+      return COMMIT_TYPES
+    }
+
+    return types.map((entry) => {
+      const name = typeof entry === "string" ? entry : entry.type
+      const builtIn = COMMIT_TYPES.find((t) => t.type === name)
+      if (typeof entry === "string") {
+        return builtIn || { type: name, description: `${name} changes` }
+      }
+      return { ...builtIn, ...entry }
+    })
+  }
+
+  getScopes(): string[] {
+    return this.getConfig().scopes || []
+  }
+
+  getCommitRules(): CommitRules {
+    return {
+      commitTypes: this.getCommitTypes(),
+      scopes: this.getScopes(),
+      maxSubjectLength: this.getConfig().maxSubjectLength ?? 50,
+      tickets: this.getConfig().tickets,
+    }
+  }
+
+  getProvider(): ProviderName {
+    const { provider } = this.getConfig()
+    return provider && isProviderName(provider) ? provider : "openai"
+  }
+
+  getProviderSettings(): ProviderSettings {
+    const config = this.getConfig()
+    const provider = this.getProvider()
+    const defaults = PROVIDER_DEFAULTS[provider]
+    const saved = config.providers?.[provider] || {}
+
+    return {
+      provider,
+      model: config.model || saved.model || defaults.model,
+      temperature: config.temperature ?? saved.temperature ?? defaults.temperature,
+      baseURL: config.baseURL || saved.baseURL || defaults.baseURL,
+      apiKey: this.getApiKey() || undefined,
+    }
+  }
+
+  getApiKey(): string | null {
+    const provider = this.getProvider()
+    const envName = PROVIDER_DEFAULTS[provider].apiKeyEnv
+    if (envName && process.env[envName]) {
+      return process.env[envName] as string
+    }
+    const config = this.readConfig()
+    const saved = config.providers?.[provider]?.apiKey
+    if (saved) {
+      return saved
+    }
+    // Configs written before provider support kept the OpenAI key at the top level
+    if (provider === "openai" && config.apiKey) {
+      return config.apiKey
+    }
 
     return null
   }
@@ -42,9 +459,7 @@ export class ConfigService {
     return this.getApiKey() !== null
   }
 
-  deleteApiKey(): void {
-    if (fs.existsSync(CONFIG_FILE)) {
-      fs.unlinkSync(CONFIG_FILE)
-    }
+  hasCredentials(): boolean {
+    return hasProviderCredentials(this.getProviderSettings())
   }
 }
@@ -0,0 +1,194 @@
+import type {
+  CommitFooter,
+  CommitRules,
+  CommitSuggestion,
+  IssueReference,
+  ParsedCommit,
+} from "./Types/types";
+
+const HEADER_PATTERN = /^([\w-]+)(?:\(([^()]*)\))?(!)?: (.*)$/;
+const FOOTER_PATTERN = /^(BREAKING[ -]CHANGE|[\w-]+)(?::(?: |$)| #)(.*)$/;
+const SCISSORS_LINE = /^# -+ >8 -+$/m;
+const REFERENCE_FOOTER = /^(close[sd]?|fix(es|ed)?|resolve[sd]?|refs?|related|see)$/i;
+const ISSUE_MENTION = /(?:^|[\s(])#(\d+)\b/g;
+const LIST_MARKER = /^\s*(?:[-*+]|\d+[.)])\s+/;
+// Git's convention for body text, so `git log` stays readable in an 80-column terminal
+export const BODY_WRAP_WIDTH = 72;
+// Messages git or other tools write on purpose, never worth rejecting
+const GENERATED_MESSAGE_PATTERN = /^(Merge |Revert "|fixup! |squash! |amend! )/;
+
+export function isGeneratedMessage(message: string): boolean {
+  return GENERATED_MESSAGE_PATTERN.test(message);
+}
+
+export function isBreakingFooter(token: string): boolean {
+  return token === "BREAKING CHANGE" || token === "BREAKING-CHANGE";
+}
+
+/** Drops git's comment lines and everything below the scissors line, as `git commit` does. */
+export function cleanCommitMessage(raw: string): string {
+  return raw
+    .split(SCISSORS_LINE)[0]
+    .split("\n")
+    .filter((line) => !line.startsWith("#"))
+    .join("\n")
+    .trim();
+}
+
+/**
+ * Wraps long body lines at `width` columns. List items get a hanging indent, while
+ * indented lines such as code and words longer than a line such as URLs are left alone.
+ */
+export function wrapBody(body: string, width = BODY_WRAP_WIDTH): string {
+  return body
+    .replace(/\r\n/g, "\n")
+    .split("\n")
+    .map((line) => {
+      const marker = LIST_MARKER.exec(line)?.[0] ?? "";
+      if (line.length <= width || (!marker && /^( {4}|\t)/.test(line))) {
+        return line;
+      }
+
+      const indent = " ".repeat(marker.length);
+      const words = line.slice(marker.length).trim().split(/\s+/);
+      const wrapped: string[] = [];
+      let current = marker + words[0];
+      for (const word of words.slice(1)) {
+        if (current.length + 1 + word.length > width) {
+          wrapped.push(current);
+          current = indent + word;
+        } else {
+          current += ` ${word}`;
+        }
+      }
+      wrapped.push(current);
+      return wrapped.join("\n");
+    })
+    .join("\n");
+}
+
+/** Parses `type(scope)!: description`, returning null when the header is not conventional. */
+export function parseCommitHeader(header: string): CommitSuggestion | null {
+  const match = HEADER_PATTERN.exec(header.trim());
+  if (!match) return null;
+  const [, type, scope, bang, description] = match;
+  return {
+    type,
+    scope: scope || undefined,
+    description,
+    breaking: bang === "!",
+  };
+}
+
+function parseFooters(paragraph: string): CommitFooter[] | null {
+  const lines = paragraph.split("\n");
+  if (!FOOTER_PATTERN.test(lines[0])) return null;
+
+  const footers: CommitFooter[] = [];
+  for (const line of lines) {
+    const match = FOOTER_PATTERN.exec(line);
+    if (match) {
+      footers.push({ token: match[1], value: match[2].trim() });
+    } else {
+      // Lines that do not start a new footer continue the previous value
+      const last = footers[footers.length - 1];
+      last.value = `${last.value}\n${line}`.trim();
+    }
+  }
+  return footers;
+}
+
+/**
+ * Parses a full commit message following the Conventional Commits specification:
+ * header, optional body and a trailing paragraph of `Token: value` footers.
+ */
+export function parseCommitMessage(message: string): ParsedCommit {
+  const normalized = message.replace(/\r\n/g, "\n").trim();
+  const [header, ...rest] = normalized.split("\n");
+  const paragraphs = rest
+    .join("\n")
+    .split(/\n\s*\n/)
+    .map((p) => p.replace(/^\n+|\s+$/g, ""))
+    .filter(Boolean);
+
+  const footers =
+    paragraphs.length > 0 ? parseFooters(paragraphs[paragraphs.length - 1]) : null;
+  const bodyParagraphs = footers ? paragraphs.slice(0, -1) : paragraphs;
+  const parsedHeader = parseCommitHeader(header);
+
+  const breakingNotes = (footers || [])
+    .filter((footer) => isBreakingFooter(footer.token))
+    .map((footer) => footer.value);
+  if (parsedHeader?.breaking && breakingNotes.length === 0) {
+    breakingNotes.push(parsedHeader.description);
+  }
+
+  return {
+    header,
+    type: parsedHeader?.type ?? null,
+    scope: parsedHeader?.scope,
+    description: parsedHeader?.description ?? null,
+    body: bodyParagraphs.length > 0 ? bodyParagraphs.join("\n\n") : undefined,
+    footers: footers || [],
+    breaking: breakingNotes.length > 0,
+    breakingNotes,
+  };
+}
+
+/** Checks a suggestion against the configured vocabulary, returning one line per problem. */
+export function validateSuggestion(
+  suggestion: CommitSuggestion,
+  rules: CommitRules
+): string[] {
+  const problems: string[] = [];
+  const validTypes = rules.commitTypes.map((t) => t.type);
+  if (!validTypes.includes(suggestion.type)) {
+    problems.push(
+      `type "${suggestion.type}" is not one of: ${validTypes.join(", ")}`
+    );
+  }
+
+  if (
+    suggestion.scope &&
+    rules.scopes.length > 0 &&
+    !rules.scopes.includes(suggestion.scope)
+  ) {
+    problems.push(
+      `scope "${suggestion.scope}" is not one of: ${rules.scopes.join(", ")}`
+    );
+  }
+
+  const maxLength = rules.maxSubjectLength;
+  if (!suggestion.description || !suggestion.description.trim()) {
+    problems.push("description is empty");
+  } else if (suggestion.description.length > maxLength) {
+    problems.push(
+      `description is ${suggestion.description.length} characters, the limit is ${maxLength}`
+    );
+  }
+
+  return problems;
+}
+
+/**
+ * Issue and pull request numbers a commit mentions: `#12` in the header, e.g. from a
+ * squash merge, and footers such as `Closes #12` or `Refs: #12, #13`.
+ */
+export function extractIssueReferences(parsed: ParsedCommit): IssueReference[] {
+  const references = new Map<string, IssueReference>();
+
+  for (const match of parsed.header.matchAll(ISSUE_MENTION)) {
+    references.set(match[1], { id: match[1] });
+  }
+  for (const footer of parsed.footers) {
+    if (!REFERENCE_FOOTER.test(footer.token)) continue;
+    // "Closes #12" is parsed with the "#" as separator, so the value may start with the number
+    for (const match of footer.value.matchAll(/(?:^|#)(\d+)\b/g)) {
+      references.set(match[1], {
+        id: match[1],
+        action: footer.token.toLowerCase(),
+      });
+    }
+  }
+  return Array.from(references.values());
+}
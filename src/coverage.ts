@@ -0,0 +1,97 @@
+import fs from "fs";
+import path from "path";
+
+// Where Jest, Vitest, c8, nyc and coverage.py write their reports, relative to a project
+const REPORT_FILES = [
+  "coverage/lcov.info",
+  "lcov.info",
+  "coverage.lcov",
+  "coverage/coverage-final.json",
+];
+
+/** Hits per line for every file in a report, keyed by path relative to the repository root. */
+export interface CoverageData {
+  report: string;
+  files: Map<string, Map<number, number>>;
+}
+
+interface IstanbulFile {
+  path?: string;
+  statementMap: Record<string, { start: { line: number } }>;
+  s: Record<string, number>;
+}
+
+/**
+ * The newest coverage report in the repository root or one of `dirs`, relative to the
+ * root. Reports are build output, so only well-known locations are checked.
+ */
+export function findCoverageReport(root: string, dirs: string[]): string | null {
+  const candidates = Array.from(new Set(["", ...dirs]))
+    .flatMap((dir) => REPORT_FILES.map((file) => path.posix.join(dir, file)))
+    .filter((file) => fs.existsSync(path.join(root, file)))
+    .map((file) => ({
+      file,
+      modified: fs.statSync(path.join(root, file)).mtimeMs,
+    }))
+    .sort((a, b) => b.modified - a.modified);
+  return candidates[0]?.file ?? null;
+}
+
+/**
+ * Reads an lcov or istanbul JSON report. Relative paths in it are taken from the project
+ * the report belongs to, the directory above `coverage/`.
+ */
+export function readCoverageReport(root: string, report: string): CoverageData {
+  const file = path.resolve(root, report);
+  const dir = path.dirname(file);
+  const project = path.basename(dir) === "coverage" ? path.dirname(dir) : dir;
+  const relative = (source: string) =>
+    path
+      .relative(root, path.resolve(project, source))
+      .split(path.sep)
+      .join("/");
+  const content = fs.readFileSync(file, "utf8");
+  const files = new Map<string, Map<number, number>>();
+
+  if (file.endsWith(".json")) {
+    const data = JSON.parse(content) as Record<string, IstanbulFile>;
+    Object.entries(data).forEach(([key, entry]) => {
+      const lines = new Map<number, number>();
+      Object.entries(entry.statementMap ?? {}).forEach(([id, statement]) => {
+        const line = statement.start.line;
+        lines.set(line, Math.max(lines.get(line) ?? 0, entry.s?.[id] ?? 0));
+      });
+      files.set(relative(entry.path ?? key), lines);
+    });
+  } else {
+    let lines: Map<number, number> | null = null;
+    for (const line of content.split(/\r?\n/)) {
+      if (line.startsWith("SF:")) {
+        lines = new Map();
+        files.set(relative(line.slice(3).trim()), lines);
+      } else if (line.startsWith("DA:") && lines) {
+        const [number, hits] = line.slice(3).split(",");
+        lines.set(Number(number), Number(hits));
+      } else if (line === "end_of_record") {
+        lines = null;
+      }
+    }
+  }
+
+  return {
+    report: path.relative(root, file).split(path.sep).join("/"),
+    files,
+  };
+}
+
+/** Compresses line numbers into ranges, e.g. "4-6, 12". */
+export function formatLineRanges(lines: number[]): string {
+  const ranges: string[] = [];
+  const sorted = Array.from(new Set(lines)).sort((a, b) => a - b);
+  for (let index = 0; index < sorted.length; index++) {
+    const start = sorted[index];
+    while (sorted[index + 1] === sorted[index] + 1) index++;
+    ranges.push(start === sorted[index] ? `${start}` : `${start}-${sorted[index]}`);
+  }
+  return ranges.join(", ");
+}
@@ -0,0 +1,57 @@
+export class StructuredOutputError extends Error {
+  readonly label: string
+  readonly problems: string[]
+  readonly response: string
+
+  constructor(label: string, problems: string[], response: string) {
+    super(`The AI returned an invalid ${label}: ${problems.join("; ")}`)
+    this.name = "StructuredOutputError"
+    this.label = label
+    this.problems = problems
+    this.response = response
+  }
+}
+
+export class MissingCredentialsError extends Error {
+  readonly provider: string
+
+  constructor(provider: string) {
+    super(`No credentials configured for ${provider}. Run 'fynn setup' or use --offline.`)
+    this.name = "MissingCredentialsError"
+    this.provider = provider
+  }
+}
+
+export class SplitAbortedError extends Error {
+  readonly committed: number
+
+  constructor(committed: number, total: number, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause)
+    super(
+      `Split stopped after ${committed} of ${total} commits, HEAD and the staged changes were restored: ${reason}`,
+      { cause }
+    )
+    this.name = "SplitAbortedError"
+    this.committed = committed
+  }
+}
+
+export class SecretFileBlockedError extends Error {
+  readonly files: string[]
+
+  constructor(files: string[]) {
+    super(`Refusing to send changes to the AI provider, these files look like secret stores: ${files.join(", ")}`)
+    this.name = "SecretFileBlockedError"
+    this.files = files
+  }
+}
+
+export class InvalidConfigError extends Error {
+  readonly key: string
+
+  constructor(key: string, problem: string) {
+    super(`Invalid value for '${key}' in the fynn config: ${problem}`)
+    this.name = "InvalidConfigError"
+    this.key = key
+  }
+}
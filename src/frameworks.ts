@@ -0,0 +1,527 @@
+import fs from "fs";
+import path from "path";
+import { isPlainObject, readJson } from "./json";
+import type {
+  TestFileTarget,
+  TestFramework,
+  TestFrameworkName,
+} from "./Types/types";
+
+export type Language = "javascript" | "python" | "go" | "rust";
+
+export const TEST_FRAMEWORKS: Record<
+  TestFrameworkName,
+  { label: string; language: Language }
+> = {
+  jest: { label: "Jest", language: "javascript" },
+  vitest: { label: "Vitest", language: "javascript" },
+  mocha: { label: "Mocha", language: "javascript" },
+  node: { label: "node:test", language: "javascript" },
+  pytest: { label: "pytest", language: "python" },
+  go: { label: "go test", language: "go" },
+  cargo: { label: "cargo test", language: "rust" },
+};
+
+const LANGUAGE_EXTENSIONS: Record<Language, string[]> = {
+  javascript: [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"],
+  python: [".py"],
+  go: [".go"],
+  rust: [".rs"],
+};
+// Checked in order, a project with both Vitest and Jest installed is usually migrating to Vitest
+const JS_FRAMEWORKS: Array<{
+  name: TestFrameworkName;
+  packages: string[];
+  configs: RegExp;
+}> = [
+  {
+    name: "vitest",
+    packages: ["vitest"],
+    configs: /^vitest\.(config|workspace)\.[cm]?[jt]s$/,
+  },
+  {
+    name: "jest",
+    packages: ["jest", "ts-jest", "@jest/globals"],
+    configs: /^jest\.config\.[cm]?[jt]s(on)?$/,
+  },
+  {
+    name: "mocha",
+    packages: ["mocha"],
+    configs: /^\.mocharc\.(c?js|json|ya?ml)$/,
+  },
+];
+const PYTEST_CONFIGS: Array<[string, RegExp | null]> = [
+  ["pytest.ini", null],
+  ["conftest.py", null],
+  ["pyproject.toml", /\[tool\.pytest/],
+  ["setup.cfg", /\[tool:pytest\]/],
+  ["tox.ini", /\[pytest\]/],
+];
+const JS_TEST_FILE = /\.(test|spec)\.[cm]?[jt]sx?$/;
+// One match per test in a file of each framework
+const TEST_DECLARATIONS: Record<TestFrameworkName, RegExp> = {
+  jest: /\b(it|test)\s*\(/g,
+  vitest: /\b(it|test)\s*\(/g,
+  mocha: /\bit\s*\(/g,
+  node: /\b(it|test)\s*\(/g,
+  pytest: /^\s*(async\s+)?def test_/gm,
+  go: /^func Test\w*\(t \*testing\.T\)/gm,
+  cargo: /#\[test\]/g,
+};
+// Source roots that tests in a separate directory do not repeat, src/a/b.ts → test/a/b.test.ts
+const SOURCE_DIR = /^(src|lib)\//;
+
+function readText(file: string): string | null {
+  try {
+    return fs.readFileSync(file, "utf8");
+  } catch {
+    return null;
+  }
+}
+
+function toPosix(file: string): string {
+  return file.split(path.sep).join("/");
+}
+
+export function languageOf(file: string): Language | null {
+  const extension = path.extname(file);
+  const entry = Object.entries(LANGUAGE_EXTENSIONS).find(([, extensions]) =>
+    extensions.includes(extension)
+  );
+  return entry ? (entry[0] as Language) : null;
+}
+
+/** Directories from the file's own up to the repository root, relative to the root. */
+function ancestors(file: string): string[] {
+  const dirs: string[] = [];
+  let dir = path.posix.dirname(file);
+  for (;;) {
+    dirs.push(dir === "." ? "" : dir);
+    if (dir === ".") return dirs;
+    dir = path.posix.dirname(dir);
+  }
+}
+
+function detectJsFramework(
+  root: string,
+  dir: string
+): TestFrameworkName | null {
+  const manifest = readJson(path.join(root, dir, "package.json"));
+  const pkg = isPlainObject(manifest) ? manifest : {};
+  let files: string[] = [];
+  try {
+    files = fs.readdirSync(path.join(root, dir));
+  } catch {
+    return null;
+  }
+  const dependencies = {
+    ...(isPlainObject(pkg.dependencies) ? pkg.dependencies : {}),
+    ...(isPlainObject(pkg.devDependencies) ? pkg.devDependencies : {}),
+  };
+  const script =
+    isPlainObject(pkg.scripts) && typeof pkg.scripts.test === "string"
+      ? pkg.scripts.test
+      : "";
+
+  const match = JS_FRAMEWORKS.find(
+    ({ name, packages, configs }) =>
+      packages.some((name) => name in dependencies) ||
+      new RegExp(`\\b${name}\\b`).test(script) ||
+      files.some((file) => configs.test(file)) ||
+      (name === "jest" && pkg.jest !== undefined)
+  );
+  if (match) return match.name;
+  return /\bnode\s+(?:--\S+\s+)*--test\b/.test(script) ? "node" : null;
+}
+
+/**
+ * The test framework for a source file, from the nearest project files above it: package.json
+ * dependencies, scripts and config files for JavaScript, pytest settings for Python, go.mod
+ * and Cargo.toml. JavaScript without a framework falls back to the built-in node:test.
+ */
+export function detectTestFramework(
+  root: string,
+  file: string,
+  configured?: TestFrameworkName
+): TestFramework | null {
+  const language = languageOf(file);
+  if (!language) return null;
+  const dirs = ancestors(file);
+  const has = (dir: string, name: string) =>
+    fs.existsSync(path.join(root, dir, name));
+
+  switch (language) {
+    case "javascript": {
+      const packageDirs = dirs.filter((dir) => has(dir, "package.json"));
+      const nearest = packageDirs[0] ?? "";
+      if (configured && TEST_FRAMEWORKS[configured].language === language) {
+        return { name: configured, root: nearest };
+      }
+      // A workspace package often inherits the framework from the repository root
+      for (const dir of packageDirs) {
+        const name = detectJsFramework(root, dir);
+        if (name) return { name, root: nearest };
+      }
+      return { name: "node", root: nearest };
+    }
+    case "python": {
+      const configDir = dirs.find((dir) =>
+        PYTEST_CONFIGS.some(([name, pattern]) => {
+          if (!has(dir, name)) return false;
+          return (
+            !pattern ||
+            pattern.test(readText(path.join(root, dir, name)) ?? "")
+          );
+        })
+      );
+      return { name: "pytest", root: configDir ?? "" };
+    }
+    case "go": {
+      const moduleDir = dirs.find((dir) => has(dir, "go.mod"));
+      return moduleDir === undefined ? null : { name: "go", root: moduleDir };
+    }
+    case "rust": {
+      const crateDir = dirs.find((dir) => has(dir, "Cargo.toml"));
+      return crateDir === undefined ? null : { name: "cargo", root: crateDir };
+    }
+  }
+}
+
+function joinPath(...parts: string[]): string {
+  return path.posix.join(...parts.filter(Boolean));
+}
+
+/** How the package lays out its JavaScript tests, judged by the tests it already has. */
+function jsLayout(
+  framework: TestFramework,
+  trackedFiles: string[]
+): {
+  style: "colocated" | "__tests__" | "directory";
+  dir: string;
+  suffix: string;
+} {
+  const prefix = framework.root ? `${framework.root}/` : "";
+  const tests = trackedFiles
+    .filter((file) => file.startsWith(prefix) && JS_TEST_FILE.test(file))
+    .map((file) => file.slice(prefix.length));
+  // A __tests__ directory at the package root works like test/, nested ones sit next to the code
+  const inTestDir = tests.filter((file) => /^(tests?|__tests__)\//.test(file));
+  const inJestDir = tests.filter((file) => /.\/__tests__\//.test(file));
+  const colocated = tests.length - inJestDir.length - inTestDir.length;
+  const suffix =
+    tests.filter((file) => file.includes(".spec.")).length > tests.length / 2
+      ? ".spec"
+      : ".test";
+
+  if (inTestDir.length > Math.max(inJestDir.length, colocated)) {
+    return { style: "directory", dir: inTestDir[0].split("/")[0], suffix };
+  }
+  if (inJestDir.length > colocated) {
+    return { style: "__tests__", dir: "__tests__", suffix };
+  }
+  return { style: "colocated", dir: "", suffix };
+}
+
+function jsTarget(
+  root: string,
+  source: string,
+  framework: TestFramework,
+  trackedFiles: string[]
+): Pick<TestFileTarget, "testFile" | "importPath"> {
+  const extension = path.posix.extname(source);
+  const dir = path.posix.dirname(source);
+  const stem = path.posix.basename(source, extension);
+  const relative = framework.root
+    ? path.posix.relative(framework.root, source)
+    : source;
+  const mirrored = path.posix.dirname(relative.replace(SOURCE_DIR, ""));
+  const layout = jsLayout(framework, trackedFiles);
+
+  const candidates = (suffix: string) => [
+    joinPath(dir, `${stem}${suffix}${extension}`),
+    joinPath(dir, "__tests__", `${stem}${suffix}${extension}`),
+    ...["test", "tests", "__tests__"].map((testDir) =>
+      joinPath(
+        framework.root,
+        testDir,
+        mirrored === "." ? "" : mirrored,
+        `${stem}${suffix}${extension}`
+      )
+    ),
+  ];
+  const existing = [...candidates(".test"), ...candidates(".spec")].find(
+    (file) => fs.existsSync(path.join(root, file))
+  );
+  const testFile =
+    existing ??
+    (layout.style === "colocated"
+      ? candidates(layout.suffix)[0]
+      : layout.style === "__tests__"
+      ? candidates(layout.suffix)[1]
+      : joinPath(
+          framework.root,
+          layout.dir,
+          mirrored === "." ? "" : mirrored,
+          `${stem}${layout.suffix}${extension}`
+        ));
+
+  // ES modules resolve exact paths, TypeScript resolves the specifier without one
+  const pkg = readJson(path.join(root, framework.root, "package.json"));
+  const keepsExtension =
+    /\.[cm]?js$/.test(extension) &&
+    ((isPlainObject(pkg) && pkg.type === "module") || extension === ".mjs");
+  let importPath = path.posix.relative(
+    path.posix.dirname(testFile),
+    keepsExtension ? source : source.slice(0, -extension.length)
+  );
+  if (!importPath.startsWith(".")) {
+    importPath = `./${importPath}`;
+  }
+  return { testFile, importPath };
+}
+
+function pythonTarget(
+  root: string,
+  source: string,
+  framework: TestFramework
+): Pick<TestFileTarget, "testFile" | "importPath"> {
+  const dir = path.posix.dirname(source);
+  const stem = path.posix.basename(source, ".py");
+  const relative = framework.root
+    ? path.posix.relative(framework.root, source)
+    : source;
+  const testDir = ["tests", "test"].find((name) =>
+    fs.existsSync(path.join(root, framework.root, name))
+  );
+
+  const candidates = [
+    ...(testDir
+      ? [
+          joinPath(framework.root, testDir, `test_${stem}.py`),
+          joinPath(
+            framework.root,
+            testDir,
+            path.posix.dirname(relative.replace(SOURCE_DIR, "")),
+            `test_${stem}.py`
+          ),
+        ]
+      : []),
+    joinPath(dir, `test_${stem}.py`),
+    joinPath(dir, `${stem}_test.py`),
+  ];
+  const testFile =
+    candidates.find((file) => fs.existsSync(path.join(root, file))) ??
+    candidates[0];
+  const importPath = relative
+    .replace(SOURCE_DIR, "")
+    .replace(/\.py$/, "")
+    .replace(/\/__init__$/, "")
+    .split("/")
+    .join(".");
+  return { testFile, importPath };
+}
+
+function goTarget(
+  root: string,
+  source: string
+): Pick<TestFileTarget, "testFile" | "importPath"> {
+  const content = readText(path.join(root, source)) ?? "";
+  return {
+    testFile: source.replace(/\.go$/, "_test.go"),
+    importPath: /^package\s+(\w+)/m.exec(content)?.[1] ?? "main",
+  };
+}
+
+function rustTarget(
+  root: string,
+  source: string,
+  framework: TestFramework
+): Pick<TestFileTarget, "testFile" | "importPath"> {
+  const manifest =
+    readText(path.join(root, framework.root, "Cargo.toml")) ?? "";
+  const crate = (
+    /\[package\][^[]*?^name\s*=\s*"([^"]+)"/m.exec(manifest)?.[1] ?? "crate"
+  ).replace(/-/g, "_");
+  const relative = framework.root
+    ? path.posix.relative(framework.root, source)
+    : source;
+  const modulePath = relative
+    .replace(/^src\//, "")
+    .replace(/\.rs$/, "")
+    .replace(/(^|\/)(lib|main|mod)$/, "")
+    .split("/")
+    .filter(Boolean);
+  const stem = modulePath[modulePath.length - 1] ?? crate;
+  return {
+    // Integration tests only see the public API, which is what a generated test should use
+    testFile: joinPath(framework.root, "tests", `${stem}.rs`),
+    importPath: [crate, ...modulePath].join("::"),
+  };
+}
+
+/**
+ * Where the tests of `source` go: an existing test file when there is one, otherwise the
+ * place the project's own tests suggest, e.g. next to the source, under `__tests__` or in
+ * a `test/` directory mirroring `src/`.
+ */
+export function planTestFile(
+  root: string,
+  source: string,
+  framework: TestFramework,
+  trackedFiles: string[]
+): TestFileTarget {
+  const file = toPosix(source);
+  const { testFile, importPath } =
+    framework.name === "pytest"
+      ? pythonTarget(root, file, framework)
+      : framework.name === "go"
+      ? goTarget(root, file)
+      : framework.name === "cargo"
+      ? rustTarget(root, file, framework)
+      : jsTarget(root, file, framework, trackedFiles);
+  return {
+    source: file,
+    testFile,
+    framework,
+    exists: fs.existsSync(path.join(root, testFile)),
+    importPath,
+  };
+}
+
+/** Framework-specific instructions for writing the test file, one rule per line. */
+export function frameworkGuide(target: TestFileTarget): string[] {
+  const { name } = target.framework;
+  const jsModules =
+    "Use the same module syntax (import or require) and language (TypeScript or JavaScript) as the source file";
+  switch (name) {
+    case "vitest":
+      return [
+        'Import describe, it, expect and vi from "vitest"',
+        `Import the code under test from "${target.importPath}"`,
+        jsModules,
+      ];
+    case "jest":
+      return [
+        "Use Jest's global describe, it and expect, and jest.fn() or jest.mock() for mocks",
+        `Import the code under test from "${target.importPath}"`,
+        jsModules,
+      ];
+    case "mocha":
+      return [
+        "Use Mocha's global describe and it, with assertions from node:assert/strict",
+        `Import the code under test from "${target.importPath}"`,
+        jsModules,
+      ];
+    case "node":
+      return [
+        'Import describe and it from "node:test" and assert from "node:assert/strict"',
+        `Import the code under test from "${target.importPath}"`,
+        jsModules,
+      ];
+    case "pytest":
+      return [
+        "Write plain pytest test functions named test_*, with pytest.raises for errors and pytest fixtures where useful",
+        `Import the code under test from the module ${target.importPath}`,
+      ];
+    case "go":
+      return [
+        `Use package ${target.importPath}, the same package as the code under test, and the standard testing package`,
+        "Prefer table-driven tests with t.Run subtests",
+      ];
+    case "cargo":
+      return [
+        `This is an integration test under tests/, use the public API through \`use ${target.importPath}\``,
+        "Write #[test] functions, with #[should_panic] for panics",
+      ];
+  }
+}
+
+// Test files of every supported framework, by name or by the directory they are in
+const TEST_FILE_PATTERN =
+  /(^|\/)(tests?|__tests__|spec)\/|\.(test|spec)\.[^/]+$|_test\.[^/]+$|(^|\/)test_[^/]+\.py$/;
+
+export function isTestFile(file: string): boolean {
+  return TEST_FILE_PATTERN.test(file);
+}
+
+/**
+ * The module name a file stands for with test affixes removed, so `math.test.ts`,
+ * `test_math.py`, `math_test.go` and `src/math/index.ts` all become "math".
+ */
+export function moduleStem(file: string): string {
+  const name = path.posix.basename(file).replace(/\.[^.]+$/, "");
+  const stem = name
+    .replace(/\.(test|spec)$/, "")
+    .replace(/^test_|_test$/, "");
+  return stem === "index" || stem === "__init__" || stem === "mod"
+    ? path.posix.basename(path.posix.dirname(file))
+    : stem;
+}
+
+export function countTests(content: string, name: TestFrameworkName): number {
+  return (content.match(TEST_DECLARATIONS[name]) ?? []).length;
+}
+
+// Node runs TypeScript itself from 22.6 on, behind --experimental-strip-types
+function supportsTypeStripping(): boolean {
+  const [major, minor] = process.versions.node.split(".").map(Number);
+  return major > 22 || (major === 22 && minor >= 6);
+}
+
+/**
+ * The command that runs one test file, to be run from the framework's root in `checkout`.
+ * TypeScript tests for node:test go through tsx when the project has it, and through
+ * Node's own type stripping otherwise, and pytest through the project's virtual environment.
+ * Throws when a TypeScript test has no runner, rather than failing every run the same way.
+ */
+export function testCommand(target: TestFileTarget, checkout: string): string[] {
+  const projectDir = path.join(checkout, target.framework.root);
+  const file = target.framework.root
+    ? path.posix.relative(target.framework.root, target.testFile)
+    : target.testFile;
+  const dir = path.posix.dirname(file);
+
+  switch (target.framework.name) {
+    case "vitest":
+      return ["npx", "--no-install", "vitest", "run", file];
+    case "jest":
+      return ["npx", "--no-install", "jest", "--ci", "--runTestsByPath", file];
+    case "mocha":
+      return ["npx", "--no-install", "mocha", file];
+    case "node": {
+      if (!/\.[cm]?tsx?$/.test(file)) return ["node", "--test", file];
+      const tsx = [projectDir, checkout].some((dir) =>
+        fs.existsSync(path.join(dir, "node_modules", ".bin", "tsx"))
+      );
+      if (tsx) return ["node", "--import", "tsx", "--test", file];
+      if (!supportsTypeStripping()) {
+        throw new Error(
+          `no TypeScript runner available for node:test, install tsx or use Node 22.6 or later (this is ${process.versions.node})`
+        );
+      }
+      return ["node", "--experimental-strip-types", "--test", file];
+    }
+    case "pytest": {
+      // The project's virtual environment has pytest and the dependencies, the system Python may not
+      const python = [projectDir, checkout]
+        .flatMap((dir) => [".venv", "venv"].map((env) => path.join(dir, env)))
+        .map((env) =>
+          process.platform === "win32"
+            ? path.join(env, "Scripts", "python.exe")
+            : path.join(env, "bin", "python")
+        )
+        .find((candidate) => fs.existsSync(candidate));
+      return [
+        python ?? (process.platform === "win32" ? "python" : "python3"),
+        "-m",
+        "pytest",
+        "-q",
+        file,
+      ];
+    }
+    case "go":
+      return ["go", "test", dir === "." ? "." : `./${dir}`];
+    case "cargo":
+      return ["cargo", "test", "--test", path.posix.basename(file, ".rs")];
+  }
+}
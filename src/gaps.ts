@@ -0,0 +1,159 @@
+import path from "path";
+import { ConfigService } from "./config";
+import {
+  findCoverageReport,
+  readCoverageReport,
+  type CoverageData,
+} from "./coverage";
+import {
+  detectTestFramework,
+  isTestFile,
+  moduleStem,
+  planTestFile,
+} from "./frameworks";
+import { GitService, LATEST_COMMIT, parseDiffSpec } from "./git";
+import { addedLines, changedSymbols, findChangedSymbols } from "./symbols";
+import { shouldGenerateTestsForFile } from "./test";
+import type {
+  ChangedSymbol,
+  DiffSpec,
+  GitDiff,
+  TestGapFile,
+  TestGapReport,
+} from "./Types/types";
+
+/** Whether a file has changed code without test changes, or new lines no test runs. */
+export function isTestGap(file: TestGapFile): boolean {
+  return (
+    (file.testFiles.length === 0 && file.symbols.length > 0) ||
+    (file.coverage?.uncovered.length ?? 0) > 0
+  );
+}
+
+/**
+ * Finds source changes that come without tests: changed functions and exports in files
+ * whose tests were not touched in the same range and, when the project has a coverage
+ * report, new lines that no test runs. Everything is read locally, nothing is sent to the
+ * AI provider.
+ */
+export class TestGapService {
+  private git: GitService;
+  private config: ConfigService;
+
+  constructor() {
+    this.git = new GitService();
+    this.config = new ConfigService();
+  }
+
+  /**
+   * The changes to check: `range` read like `--rev`, or else the current branch since it
+   * forked from its base, or the latest commit when the branch is the base itself.
+   */
+  async resolveSpec(range?: string): Promise<DiffSpec> {
+    if (range) return parseDiffSpec(range);
+    const base = await this.git
+      .resolveBaseBranch(this.config.getConfig().baseBranch)
+      .catch(() => null);
+    if (base) {
+      const spec: DiffSpec = {
+        kind: "range",
+        from: base,
+        to: "HEAD",
+        mergeBase: true,
+      };
+      if ((await this.git.describeDiff(spec)).commits.length > 0) return spec;
+    }
+    return LATEST_COMMIT;
+  }
+
+  /** `coverageReport` is a path from the current directory, otherwise one is looked for. */
+  async analyze(
+    spec: DiffSpec,
+    coverageReport?: string
+  ): Promise<TestGapReport> {
+    const target = await this.git.describeDiff(spec);
+    const diffs = (await this.git.getDiff(spec)).filter(
+      (diff) => diff.status !== "deleted"
+    );
+    const root = await this.git.getRepositoryRoot();
+    const trackedFiles = await this.git.getTrackedFiles();
+    const configured = this.config.getConfig().testFramework;
+
+    const changedTests = diffs
+      .map((diff) => diff.file)
+      .filter((file) => isTestFile(file));
+    const sources = diffs.filter((diff) =>
+      shouldGenerateTestsForFile(diff.file)
+    );
+    const frameworks = new Map(
+      sources.map((diff) => [
+        diff.file,
+        detectTestFramework(root, diff.file, configured),
+      ])
+    );
+
+    const report = coverageReport
+      ? path.relative(root, path.resolve(coverageReport))
+      : findCoverageReport(
+          root,
+          Array.from(frameworks.values()).map((framework) => framework?.root ?? "")
+        );
+    const coverage = report ? readCoverageReport(root, report) : null;
+
+    const files: TestGapFile[] = [];
+    for (const diff of sources) {
+      const framework = frameworks.get(diff.file);
+      const planned = framework
+        ? planTestFile(root, diff.file, framework, trackedFiles).testFile
+        : null;
+      const stem = moduleStem(diff.file);
+      files.push({
+        file: diff.file,
+        symbols: await this.symbolsOf(spec, diff),
+        testFiles: changedTests.filter(
+          (test) => test === planned || moduleStem(test) === stem
+        ),
+        coverage: coverage ? this.coverageOf(diff, coverage) : undefined,
+      });
+    }
+
+    return {
+      target: target.label,
+      coverageReport: coverage?.report,
+      files,
+      gaps: files.filter(isTestGap).length,
+    };
+  }
+
+  /** Parsed from the new version of the file, or guessed from the diff when it cannot be read. */
+  private async symbolsOf(
+    spec: DiffSpec,
+    diff: GitDiff
+  ): Promise<ChangedSymbol[]> {
+    const content = await this.git.getFileContent(spec, diff.file);
+    if (content === null) return changedSymbols(diff);
+    return (await findChangedSymbols(diff, content)).map(
+      ({ name, kind, exported, line, added }) => ({
+        name,
+        kind,
+        exported,
+        line,
+        added,
+      })
+    );
+  }
+
+  /** The added lines the report instruments, undefined when it does not know the file. */
+  private coverageOf(
+    diff: GitDiff,
+    coverage: CoverageData
+  ): TestGapFile["coverage"] {
+    const hits = coverage.files.get(diff.file);
+    if (!hits) return undefined;
+    const lines = addedLines(diff.changes).filter((line) => hits.has(line));
+    return {
+      lines: lines.length,
+      uncovered: lines.filter((line) => hits.get(line) === 0),
+    };
+  }
+}
@@ -1,5 +1,49 @@
 import simpleGit, { type SimpleGit } from "simple-git"
-import type { GitDiff, CommitInfo, CommitImpact, DeveloperReport } from "./Types/types"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { globToRegExp } from "./glob"
+import type {
+  GitDiff,
+  CommitInfo,
+  CommitImpact,
+  DeveloperReport,
+  DiffSpec,
+  DiffTarget,
+  FileStatus,
+  IndexSnapshot,
+  TagFilter,
+} from "./Types/types"
+
+const NAME_STATUS: Record<string, FileStatus> = {
+  A: "added",
+  C: "added",
+  D: "deleted",
+  R: "renamed",
+}
+
+// Git's well-known empty tree, the parent to diff a root commit against
+const EMPTY_TREE = "4b825dc642cb6eb9a060e54bf8d69288fbee4904"
+
+export const LATEST_COMMIT: DiffSpec = { kind: "commit", ref: "HEAD" }
+
+/**
+ * Parses a `--rev` value: a commit, a range such as `main..feature` or `main...feature`,
+ * `staged` for the index or `worktree` for all uncommitted changes.
+ */
+export function parseDiffSpec(value?: string): DiffSpec {
+  const rev = value?.trim()
+  if (!rev) return LATEST_COMMIT
+  if (["staged", "cached", "index"].includes(rev)) return { kind: "staged" }
+  if (["worktree", "working-tree"].includes(rev)) return { kind: "worktree" }
+
+  const range = /^(.*?)(\.{2,3})(.*)$/.exec(rev)
+  if (range) {
+    const [, from, dots, to] = range
+    return { kind: "range", from: from || "HEAD", to: to || "HEAD", mergeBase: dots === "..." }
+  }
+  return { kind: "commit", ref: rev }
+}
 
 export class GitService {
   private git: SimpleGit
@@ -57,12 +101,80 @@ export class GitService {
     return status.current || "main"
   }
 
+  /**
+   * The branch pull requests usually target: what `origin/HEAD` points to, otherwise the
+   * first of main, master and trunk that exists, preferring the remote-tracking branch.
+   */
+  async getDefaultBranch(): Promise<string | null> {
+    const originHead = await this.git
+      .raw(["symbolic-ref", "--quiet", "--short", "refs/remotes/origin/HEAD"])
+      .catch(() => "")
+    if (originHead.trim()) {
+      return originHead.trim()
+    }
+    for (const name of ["main", "master", "trunk"]) {
+      for (const ref of [`origin/${name}`, name]) {
+        if (await this.refExists(ref)) return ref
+      }
+    }
+    return null
+  }
+
+  async refExists(ref: string): Promise<boolean> {
+    return this.resolveRef(ref).then(
+      () => true,
+      () => false
+    )
+  }
+
+  /**
+   * The branch to compare HEAD with: `requested`, or the default branch when not given.
+   * Falls back to the remote-tracking branch, which is all a CI checkout often has.
+   */
+  async resolveBaseBranch(requested?: string | null): Promise<string> {
+    const name = requested || (await this.getDefaultBranch())
+    if (!name) {
+      throw new Error("No base branch found, pass one or set 'baseBranch' in the config")
+    }
+    if (await this.refExists(name)) return name
+    if (await this.refExists(`origin/${name}`)) return `origin/${name}`
+    throw new Error(`Unknown base branch '${name}'`)
+  }
+
+  async getMergeBase(a: string, b: string): Promise<string> {
+    const base = await this.git.raw(["merge-base", a, b]).catch(() => "")
+    if (!base.trim()) {
+      throw new Error(`${a} and ${b} have no common history`)
+    }
+    return base.trim()
+  }
+
   async pushWithUpstream(branch: string): Promise<void> {
     await this.git.push(["-u", "origin", branch])
   }
 
+  async getStagedFileStatuses(): Promise<Array<{ file: string; status: FileStatus; from?: string }>> {
+    const summary = await this.git.diffSummary(["--cached", "--name-status", "-M"])
+    return summary.files.map((entry) => {
+      const code = "status" in entry ? entry.status : undefined
+      return {
+        file: entry.file,
+        status: (code && NAME_STATUS[code]) || "modified",
+        from: "from" in entry ? entry.from : undefined,
+      }
+    })
+  }
+
   async getStagedDiff(): Promise<GitDiff[]> {
     const stagedFiles = await this.getStagedFiles()
+    const statuses = await this.getStagedFileStatuses()
+
+    // `git status` reports renames separately, so their targets are missing from `staged`
+    for (const entry of statuses) {
+      if (!stagedFiles.includes(entry.file)) {
+        stagedFiles.push(entry.file)
+      }
+    }
 
     if (stagedFiles.length === 0) {
       return []
@@ -71,6 +183,7 @@ export class GitService {
     const diffs: GitDiff[] = []
 
     for (const file of stagedFiles) {
+      const fileStatus = statuses.find((entry) => entry.file === file)
       try {
         const diff = await this.git.diff(["--cached", file])
         const stats = await this.git.diffSummary(["--cached", file])
@@ -85,6 +198,8 @@ export class GitService {
           insertions,
           deletions,
           changes: diff,
+          status: fileStatus?.status,
+          from: fileStatus?.from,
         })
       } catch (error) {
         diffs.push({
@@ -92,6 +207,8 @@ export class GitService {
           insertions: 0,
           deletions: 0,
           changes: `Binary file or unable to get diff for ${file}`,
+          status: fileStatus?.status,
+          from: fileStatus?.from,
         })
       }
     }
@@ -100,7 +217,166 @@ export class GitService {
   }
 
   async commit(message: string): Promise<void> {
-    await this.git.commit(message)
+    const result = await this.git.commit(message)
+    // simple-git only rejects when git writes to stderr, so a silently failing hook looks like success
+    if (!result.commit) {
+      throw new Error("git commit did not create a commit, check your commit hooks")
+    }
+  }
+
+  async stageFiles(paths: string[]): Promise<void> {
+    await this.git.add(paths)
+  }
+
+  async unstageFiles(paths: string[]): Promise<void> {
+    await this.git.raw(["reset", "-q", "HEAD", "--", ...paths])
+  }
+
+  /** Points a ref under refs/fynn/backups at HEAD before history is rewritten, and returns its name. */
+  async createBackupRef(operation: string): Promise<string> {
+    const branch = (await this.getCurrentBranch()).replace(/[^\w./-]/g, "-")
+    const stamp = new Date().toISOString().replace(/\D/g, "").slice(0, 14)
+    const ref = `refs/fynn/backups/${branch}/${operation}-${stamp}`
+    await this.git.raw(["update-ref", ref, "HEAD"])
+    return ref
+  }
+
+  /** The remote-tracking branch HEAD's branch pushes to, or null when it has none. */
+  async getUpstream(): Promise<string | null> {
+    try {
+      const upstream = await this.git.raw(["rev-parse", "--abbrev-ref", "--symbolic-full-name", "@{upstream}"])
+      return upstream.trim() || null
+    } catch {
+      return null
+    }
+  }
+
+  async getRemoteBranchesContaining(ref: string): Promise<string[]> {
+    const output = await this.git.raw(["branch", "-r", "--contains", ref])
+    return output
+      .split("\n")
+      .map((line) => line.trim())
+      .filter((line) => line && !line.includes(" -> "))
+  }
+
+  // `merge-base --is-ancestor` answers with its exit code alone, which simple-git does not surface
+  async isAncestor(ancestor: string, ref: string): Promise<boolean> {
+    const hash = await this.resolveRef(ancestor)
+    const base = await this.git.raw(["merge-base", hash, ref]).catch(() => "")
+    return base.trim() === hash
+  }
+
+  /**
+   * Recreates `from` and every commit after it up to HEAD with the same trees, authors and
+   * author dates, replacing the messages given in `messages`. Nothing is checked out, so the
+   * working tree and index are untouched. Returns the new tip, moving the branch is up to the caller.
+   */
+  async rewriteMessages(from: string, messages: Map<string, string>): Promise<string> {
+    const start = await this.resolveRef(from)
+    const later = (await this.git.raw(["rev-list", "--reverse", "--topo-order", "--ancestry-path", `${start}..HEAD`]))
+      .split("\n")
+      .filter(Boolean)
+    const rewritten = new Map<string, string>()
+    // A message file keeps the bytes of untouched messages exactly, `-m` would not
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "fynn-rewrite-"))
+    const messageFile = path.join(dir, "message")
+
+    try {
+      for (const hash of [start, ...later]) {
+        const raw = await this.git.raw(["cat-file", "commit", hash])
+        const separator = raw.indexOf("\n\n")
+        const headers = raw.slice(0, separator).split("\n")
+        const field = (name: string) =>
+          headers.filter((line) => line.startsWith(`${name} `)).map((line) => line.slice(name.length + 1))
+        const author = /^(.*) <(.*)> (\d+ [+-]\d{4})$/.exec(field("author")[0] ?? "")
+        if (!author) {
+          throw new Error(`Cannot read the author of ${hash}`)
+        }
+
+        const replacement = messages.get(hash)
+        fs.writeFileSync(messageFile, replacement ? `${replacement.trimEnd()}\n` : raw.slice(separator + 2))
+        const parents = field("parent").map((parent) => rewritten.get(parent) ?? parent)
+        const created = await simpleGit()
+          .env({
+            ...process.env,
+            GIT_AUTHOR_NAME: author[1],
+            GIT_AUTHOR_EMAIL: author[2],
+            GIT_AUTHOR_DATE: author[3],
+          })
+          .raw(["commit-tree", field("tree")[0], ...parents.flatMap((parent) => ["-p", parent]), "-F", messageFile])
+        rewritten.set(hash, created.trim())
+      }
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+
+    // Commits on a side branch of a merge are not descendants of `from`
+    const missed = Array.from(messages.keys()).filter((hash) => !rewritten.has(hash))
+    if (missed.length > 0) {
+      throw new Error(`Cannot rewrite ${missed.map((hash) => hash.substring(0, 7)).join(", ")}, they are not descendants of ${start.substring(0, 7)}`)
+    }
+    return rewritten.get(later[later.length - 1] ?? start)!
+  }
+
+  /** Moves the current branch to `next`, failing when it no longer points at `expected`. */
+  async updateHead(next: string, expected: string, reason: string): Promise<void> {
+    await this.git.raw(["update-ref", "-m", reason, "HEAD", next, expected])
+  }
+
+  async getHeadHash(): Promise<string> {
+    return this.resolveRef("HEAD")
+  }
+
+  async softReset(ref: string): Promise<void> {
+    await this.git.reset(["--soft", ref])
+  }
+
+  async createAnnotatedTag(name: string, message: string): Promise<void> {
+    await this.git.addAnnotatedTag(name, message)
+  }
+
+  async getRepositoryRoot(): Promise<string> {
+    return (await this.git.revparse(["--show-toplevel"])).trim()
+  }
+
+  /** Absolute path of a file inside the git directory, honouring worktrees and core.hooksPath. */
+  async getGitPath(name: string): Promise<string> {
+    const relative = (await this.git.revparse(["--git-path", name])).trim()
+    return path.resolve(relative)
+  }
+
+  /** Fetch URL of `origin`, or of the first remote when there is no origin. */
+  async getRemoteUrl(): Promise<string | null> {
+    const remotes = await this.git.getRemotes(true)
+    const remote = remotes.find((r) => r.name === "origin") || remotes[0]
+    return remote?.refs.fetch || null
+  }
+
+  async getConfigValue(key: string): Promise<string | null> {
+    const value = await this.git.getConfig(key)
+    return value.value
+  }
+
+  async snapshotIndex(): Promise<IndexSnapshot> {
+    const tree = (await this.git.raw(["write-tree"])).trim()
+    const head = (await this.hasCommits()) ? (await this.git.revparse(["HEAD"])).trim() : null
+    return { tree, head }
+  }
+
+  /** Resets the index to HEAD, then stages `paths` exactly as they were when `snapshot` was taken. */
+  async stageFromSnapshot(paths: string[], snapshot: IndexSnapshot): Promise<void> {
+    await this.git.raw(["read-tree", (await this.hasCommits()) ? "HEAD" : "--empty"])
+    await this.git.raw(["--literal-pathspecs", "restore", `--source=${snapshot.tree}`, "--staged", "--", ...paths])
+  }
+
+  /** Moves HEAD back to where it was and puts the staged changes back, leaving the working tree alone. */
+  async restoreIndex(snapshot: IndexSnapshot): Promise<void> {
+    if (snapshot.head) {
+      await this.git.raw(["reset", "--soft", snapshot.head])
+    } else {
+      await this.git.raw(["update-ref", "-d", "HEAD"])
+    }
+    await this.git.raw(["read-tree", snapshot.tree])
   }
 
   async hasUnstagedChanges(): Promise<boolean> {
@@ -108,6 +384,37 @@ export class GitService {
     return status.modified.length > 0 || status.not_added.length > 0
   }
 
+  /** Every tracked file, relative to the repository root. */
+  async getTrackedFiles(): Promise<string[]> {
+    // `:/` covers the whole repository even when run from a subdirectory
+    const output = await this.git.raw(["ls-files", "-z", "--full-name", "--", ":/"])
+    return output.split("\0").filter(Boolean)
+  }
+
+  /** Untracked files that are not ignored, relative to the repository root. */
+  async getUntrackedFiles(): Promise<string[]> {
+    const output = await this.git.raw(["ls-files", "-z", "--others", "--exclude-standard", "--full-name", "--", ":/"])
+    return output.split("\0").filter(Boolean)
+  }
+
+  /**
+   * A commit of the tracked files as they are in the working tree, without touching the
+   * stash list, the index or the files. HEAD itself when nothing is modified.
+   */
+  async snapshotWorkingTree(): Promise<string> {
+    const stash = (await this.git.raw(["stash", "create"])).trim()
+    return stash || this.getHeadHash()
+  }
+
+  /** Checks out `ref` into a new, detached worktree at `dir`. */
+  async addWorktree(dir: string, ref: string): Promise<void> {
+    await this.git.raw(["worktree", "add", "--detach", dir, ref])
+  }
+
+  async removeWorktree(dir: string): Promise<void> {
+    await this.git.raw(["worktree", "remove", "--force", dir])
+  }
+
   async hasCommits(): Promise<boolean> {
     try {
       await this.git.log({ maxCount: 1 })
@@ -143,47 +450,115 @@ export class GitService {
   }
 
   async getLatestCommitDiff(): Promise<GitDiff[]> {
-    try {
-      const log = await this.git.log({ maxCount: 2 })
-
-      if (log.all.length === 0) {
-        throw new Error("No commits found")
-      }
+    return this.getDiff(LATEST_COMMIT)
+  }
 
-      const latestHash = log.latest?.hash
-      if (!latestHash) {
-        throw new Error("Unable to get latest commit hash")
-      }
-      const parentHash = log.all.length > 1 ? log.all[1].hash : null
+  /** Per-file changes for a commit, a revision range, the staged index or the working tree. */
+  async getDiff(spec: DiffSpec): Promise<GitDiff[]> {
+    if (spec.kind === "staged") {
+      return this.getStagedDiff()
+    }
 
-      const diffCommand = parentHash ? [parentHash, latestHash] : [latestHash]
-      const diff = await this.git.diff(diffCommand)
-      const stats = await this.git.diffSummary(diffCommand)
+    try {
+      const args = await this.diffArgs(spec)
+      const stats = await this.git.diffSummary([...args, "-M"])
+      const statuses = await this.git.diffSummary([...args, "--name-status", "-M"])
 
       const diffs: GitDiff[] = []
-
       for (const fileStat of stats.files) {
         const insertions = "insertions" in fileStat ? fileStat.insertions : 0
         const deletions = "deletions" in fileStat ? fileStat.deletions : 0
-        const fileDiff = await this.git.diff([...diffCommand, "--", fileStat.file])
+        const entry = statuses.files.find((f) => f.file === fileStat.file)
+        const code = entry && "status" in entry ? entry.status : undefined
+        const from = entry && "from" in entry ? entry.from : undefined
+        // A rename only shows as such when both sides are in the pathspec
+        const paths = from ? [from, fileStat.file] : [fileStat.file]
+        const fileDiff = await this.git.diff([...args, "-M", "--", ...paths])
 
         diffs.push({
           file: fileStat.file,
           insertions,
           deletions,
           changes: fileDiff,
+          status: (code && NAME_STATUS[code]) || "modified",
+          from,
         })
       }
 
       return diffs
     } catch (error) {
-      throw new Error(`Failed to get commit diff: ${error instanceof Error ? error.message : "Unknown error"}`)
+      throw new Error(`Failed to get diff: ${error instanceof Error ? error.message : "Unknown error"}`)
     }
   }
 
-  async analyzeCommitImpact(): Promise<CommitImpact | null> {
+  /** A file as it is on the new side of `spec`, null when it does not exist there. */
+  async getFileContent(spec: DiffSpec, file: string): Promise<string | null> {
+    if (spec.kind === "worktree") {
+      const full = path.join(await this.getRepositoryRoot(), file)
+      return fs.existsSync(full) ? fs.readFileSync(full, "utf8") : null
+    }
+    const ref = spec.kind === "staged" ? "" : await this.resolveRef(spec.kind === "commit" ? spec.ref : spec.to)
     try {
-      const diffs = await this.getLatestCommitDiff()
+      // `ref:./path` would be relative to the current directory, `ref:path` is from the root
+      return await this.git.show([`${ref}:${file}`])
+    } catch {
+      return null
+    }
+  }
+
+  /** A label, a file-name-safe id and the commits involved, for reports about a diff. */
+  async describeDiff(spec: DiffSpec): Promise<DiffTarget> {
+    switch (spec.kind) {
+      case "staged":
+        return { label: "staged changes", id: "staged", commits: [] }
+      case "worktree":
+        return { label: "uncommitted changes", id: "working", commits: [] }
+      case "commit": {
+        const hash = await this.resolveRef(spec.ref)
+        const short = hash.substring(0, 7)
+        const commits = await this.getCommitsInRange(`${hash}^!`)
+        return { label: `commit ${short}`, id: short, commits }
+      }
+      case "range": {
+        const from = await this.resolveRef(spec.from)
+        const to = await this.resolveRef(spec.to)
+        const commits = await this.getCommitsInRange(`${from}..${to}`)
+        const label = `${spec.from}${spec.mergeBase ? "..." : ".."}${spec.to}`
+        return { label, id: `${from.substring(0, 7)}-${to.substring(0, 7)}`, commits }
+      }
+    }
+  }
+
+  private async resolveRef(ref: string): Promise<string> {
+    // --quiet writes nothing to stderr, so an unknown ref resolves to an empty string
+    const hash = await this.git
+      .revparse(["--verify", "--quiet", `${ref}^{commit}`])
+      .catch(() => "")
+    if (!hash.trim()) {
+      throw new Error(`Unknown revision '${ref}'`)
+    }
+    return hash.trim()
+  }
+
+  private async diffArgs(spec: Exclude<DiffSpec, { kind: "staged" }>): Promise<string[]> {
+    switch (spec.kind) {
+      case "commit": {
+        const commit = await this.resolveRef(spec.ref)
+        return [(await this.getParentCommit(commit)) ?? EMPTY_TREE, commit]
+      }
+      case "range": {
+        const from = await this.resolveRef(spec.from)
+        const to = await this.resolveRef(spec.to)
+        return [spec.mergeBase ? `${from}...${to}` : `${from}..${to}`]
+      }
+      case "worktree":
+        return [(await this.hasCommits()) ? "HEAD" : EMPTY_TREE]
+    }
+  }
+
+  async analyzeCommitImpact(spec: DiffSpec = LATEST_COMMIT): Promise<CommitImpact | null> {
+    try {
+      const diffs = await this.getDiff(spec)
 
       if (diffs.length === 0) {
         return null
@@ -410,7 +785,9 @@ export class GitService {
       return log.all.map((commit) => ({
         hash: commit.hash,
         message: commit.message,
+        body: commit.body,
         author: commit.author_name,
+        email: commit.author_email,
         date: commit.date,
       }))
     } catch (error) {
@@ -419,6 +796,77 @@ export class GitService {
     }
   }
 
+  /** Commits in a revision range such as `origin/main..HEAD`, newest first. */
+  async getCommitsInRange(range: string): Promise<CommitInfo[]> {
+    const log = await this.git.log([range])
+    return log.all.map((commit) => ({
+      hash: commit.hash,
+      message: commit.message,
+      body: commit.body,
+      author: commit.author_name,
+      email: commit.author_email,
+      date: commit.date,
+    }))
+  }
+
+  /**
+   * Commits reachable from `to` but not from `from`, newest first, without merge commits.
+   * With `paths` only commits touching them count, e.g. one workspace package.
+   */
+  async getCommitsBetween(from: string | null, to: string, maxCount?: number, paths?: string[]): Promise<CommitInfo[]> {
+    const args = [
+      "--no-merges",
+      ...(maxCount ? [`--max-count=${maxCount}`] : []),
+      from ? `${from}..${to}` : to,
+      ...(paths && paths.length > 0 ? ["--", ...paths] : []),
+    ]
+    const log = await this.git.log(args)
+    return log.all.map((commit) => ({
+      hash: commit.hash,
+      message: commit.message,
+      body: commit.body,
+      author: commit.author_name,
+      email: commit.author_email,
+      date: commit.date,
+    }))
+  }
+
+  /** Tags reachable from HEAD, oldest first, optionally only those matching a glob such as `pkg@*`. */
+  async getTags(match?: TagFilter): Promise<string[]> {
+    const output = await this.git.raw([
+      "tag",
+      "--merged",
+      "HEAD",
+      "--sort=creatordate",
+      ...(match?.include ? ["--list", match.include] : []),
+    ])
+    const tags = output.split("\n").filter(Boolean)
+    const exclude = match?.exclude
+    return exclude ? tags.filter((tag) => !globToRegExp(exclude).test(tag)) : tags
+  }
+
+  async isTag(ref: string): Promise<boolean> {
+    const output = await this.git.raw(["tag", "--list", ref])
+    return output.trim() === ref
+  }
+
+  /** Nearest tag reachable from `ref`, which is `ref` itself when it is tagged. */
+  async findNearestTag(ref: string, match?: TagFilter): Promise<string | null> {
+    const filters = [
+      ...(match?.include ? [`--match=${match.include}`] : []),
+      ...(match?.exclude ? [`--exclude=${match.exclude}`] : []),
+    ]
+    try {
+      return (await this.git.raw(["describe", "--tags", "--abbrev=0", ...filters, ref])).trim() || null
+    } catch {
+      return null
+    }
+  }
+
+  async getRefDate(ref: string): Promise<string> {
+    return (await this.git.raw(["log", "-1", "--format=%cs", ref])).trim()
+  }
+
   async getLatestTag(): Promise<string | null> {
     try {
       const tags = await this.git.tags()
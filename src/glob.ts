@@ -0,0 +1,49 @@
+const globCache = new Map<string, RegExp>()
+
+/**
+ * Converts a gitignore-style glob into a RegExp. Patterns without a slash match
+ * the file name at any depth, and a pattern naming a directory matches everything below it.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const cached = globCache.get(pattern)
+  if (cached) {
+    return cached
+  }
+
+  let glob = pattern.trim().replace(/^\.\//, "")
+  if (glob.endsWith("/")) {
+    glob += "**"
+  }
+  const anchored = glob.startsWith("/") || glob.slice(0, -1).includes("/")
+  glob = glob.replace(/^\//, "")
+
+  let source = ""
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        const followedBySlash = glob[i + 2] === "/"
+        source += followedBySlash ? "(?:.*/)?" : ".*"
+        i += followedBySlash ? 2 : 1
+      } else {
+        source += "[^/]*"
+      }
+    } else if (char === "?") {
+      source += "[^/]"
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    }
+  }
+
+  const regex = new RegExp(`${anchored ? "^" : "(?:^|/)"}${source}(?:/.*)?$`)
+  globCache.set(pattern, regex)
+  return regex
+}
+
+export function matchesGlob(file: string, patterns: string[] | undefined): boolean {
+  if (!patterns || patterns.length === 0) {
+    return false
+  }
+  const normalized = file.replace(/\\/g, "/")
+  return patterns.some((pattern) => globToRegExp(pattern).test(normalized))
+}
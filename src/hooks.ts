@@ -0,0 +1,387 @@
+import fs from "fs";
+import path from "path";
+import { AIService, formatFullCommitMessage } from "./ai";
+import { ConfigService } from "./config";
+import { GitService } from "./git";
+import { createOfflineGenerator } from "./offline";
+import { cleanCommitMessage, isGeneratedMessage } from "./conventional";
+import { CommitLinter } from "./lint";
+import { applyTicket, getBranchTicket } from "./tickets";
+import { loadWorkspacePackages, packagesForFiles } from "./workspace";
+import { blockingIssues, resolveReviewGate } from "./review";
+import type {
+  CodeReview,
+  CodeReviewIssue,
+  CommitSuggestion,
+  GitDiff,
+  LintResult,
+  ReviewGate,
+} from "./Types/types";
+
+export const HOOK_NAMES = [
+  "prepare-commit-msg",
+  "commit-msg",
+  "pre-commit",
+] as const;
+export type HookName = (typeof HOOK_NAMES)[number];
+// The AI review in pre-commit is slow and can block commits, so it is opt-in
+export const DEFAULT_HOOKS: HookName[] = ["prepare-commit-msg", "commit-msg"];
+
+export type HookManager = "git" | "husky" | "lefthook";
+
+export interface StagedReview {
+  review: CodeReview;
+  gate: ReviewGate;
+  blocking: CodeReviewIssue[];
+}
+
+export interface HookChange {
+  hook: HookName;
+  manager: HookManager;
+  file: string;
+  action: "installed" | "updated" | "removed" | "unchanged" | "manual";
+  note?: string;
+}
+
+// Suffix for a hook that existed before fynn, chained from our script and restored on uninstall
+const CHAINED_SUFFIX = ".pre-fynn";
+const LEFTHOOK_FILES = [
+  "lefthook.yml",
+  "lefthook.yaml",
+  ".lefthook.yml",
+  ".lefthook.yaml",
+];
+// Long enough for a slow provider, short enough that nobody thinks git hangs
+const AI_TIMEOUT_MS = 15000;
+// A review reads the whole diff and answers at length, it gets more time than a message
+const REVIEW_TIMEOUT_MS = 60000;
+
+// Hooks that can stop the commit; the others must never get in its way
+function isBlocking(hook: HookName): boolean {
+  return hook !== "prepare-commit-msg";
+}
+
+/** Rejects when `promise` has not settled after `ms`. */
+async function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error("AI provider timed out")),
+          ms
+        );
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Each hook gets its own markers because lefthook keeps both in one file
+function blockMarkers(hook: HookName): [string, string] {
+  return [`# >>> fynn ${hook} >>>`, `# <<< fynn ${hook} <<<`];
+}
+
+function findBlock(content: string, hook: HookName): string | null {
+  const [start, end] = blockMarkers(hook);
+  const from = content.indexOf(start);
+  const to = content.indexOf(end, from);
+  return from === -1 || to === -1 ? null : content.slice(from, to + end.length);
+}
+
+function withoutBlock(content: string, hook: HookName): string {
+  const block = findBlock(content, hook);
+  return block ? content.replace(block, "").replace(/\n{3,}/g, "\n\n") : content;
+}
+
+function shellBlock(hook: HookName): string {
+  // prepare-commit-msg must never stop a commit, the others reject it
+  const onFailure = isBlocking(hook) ? "exit 1" : "true";
+  const [start, end] = blockMarkers(hook);
+  return [
+    start,
+    'fynn_bin="$(command -v fynn 2>/dev/null || echo node_modules/.bin/fynn)"',
+    'if [ -x "$fynn_bin" ]; then',
+    `  "$fynn_bin" hook run ${hook} "$@" || ${onFailure}`,
+    "fi",
+    end,
+  ].join("\n");
+}
+
+function lefthookBlock(hook: HookName): string {
+  const args =
+    hook === "commit-msg"
+      ? " {1}"
+      : hook === "prepare-commit-msg"
+      ? " {1} {2} {3}"
+      : "";
+  const onFailure = isBlocking(hook) ? "" : " || true";
+  const [start, end] = blockMarkers(hook);
+  return [
+    start,
+    `${hook}:`,
+    "  commands:",
+    "    fynn:",
+    `      run: npx --no-install fynn hook run ${hook}${args}${onFailure}`,
+    end,
+  ].join("\n");
+}
+
+/** Installs fynn into git's commit hooks and runs the hook logic when git calls back. */
+export class HookService {
+  private git: GitService;
+
+  constructor() {
+    this.git = new GitService();
+  }
+
+  async install(hooks: HookName[] = DEFAULT_HOOKS): Promise<HookChange[]> {
+    const manager = await this.detectManager();
+    const changes: HookChange[] = [];
+
+    for (const hook of hooks) {
+      if (manager.name === "lefthook") {
+        changes.push(this.installLefthook(hook, manager.file));
+      } else if (manager.name === "husky") {
+        changes.push(
+          this.installScript(hook, path.join(manager.file, hook), "husky")
+        );
+      } else {
+        changes.push(await this.installGitHook(hook));
+      }
+    }
+    return changes;
+  }
+
+  async uninstall(): Promise<HookChange[]> {
+    const manager = await this.detectManager();
+    const changes: HookChange[] = [];
+
+    for (const hook of HOOK_NAMES) {
+      const file =
+        manager.name === "git"
+          ? path.join(await this.git.getGitPath("hooks"), hook)
+          : manager.name === "husky"
+          ? path.join(manager.file, hook)
+          : manager.file;
+      changes.push(this.removeBlock(hook, file, manager.name));
+    }
+    // Only mention the opt-in hooks when there was something to remove
+    return changes.filter(
+      (change) =>
+        change.action !== "unchanged" || DEFAULT_HOOKS.includes(change.hook)
+    );
+  }
+
+  /**
+   * Pre-fills the editor for a plain `git commit`. Messages from -m/-F, templates, merges,
+   * squashes and amends are left alone, and any failure leaves the file untouched.
+   */
+  async prepareCommitMessage(file: string, source?: string): Promise<void> {
+    if (source || process.env.FYNN_SKIP_HOOKS) return;
+
+    const diffs = await this.git.getStagedDiff();
+    if (diffs.length === 0) return;
+
+    let suggestion = await this.suggest(diffs);
+    const tickets = new ConfigService().getConfig().tickets;
+    const ticket = await getBranchTicket(this.git, tickets);
+    if (tickets && ticket) {
+      suggestion = applyTicket(suggestion, ticket, tickets);
+    }
+    const message = formatFullCommitMessage(suggestion);
+    // Comment lines are stripped by git, so the warning only shows in the editor
+    const spanned = packagesForFiles(
+      loadWorkspacePackages(),
+      diffs.map((d) => d.file)
+    );
+    const warning =
+      spanned.length > 1
+        ? `# fynn: these changes span ${spanned.length} packages (${spanned
+            .map((pkg) => pkg.name)
+            .join(", ")}), consider 'fynn split'\n`
+        : "";
+    const existing = fs.readFileSync(file, "utf8");
+    fs.writeFileSync(file, `${message}\n${warning}${existing}`);
+  }
+
+  /** Lints the final commit message, or returns null when it is not ours to check. */
+  async validateCommitMessage(file: string): Promise<LintResult | null> {
+    if (process.env.FYNN_SKIP_HOOKS) return null;
+    if (fs.existsSync(await this.git.getGitPath("MERGE_HEAD"))) return null;
+
+    const message = cleanCommitMessage(fs.readFileSync(file, "utf8"));
+    // Git aborts empty messages itself
+    if (!message || isGeneratedMessage(message)) return null;
+
+    const rules = new ConfigService().getCommitRules();
+    const ticket = await getBranchTicket(this.git, rules.tickets);
+    return new CommitLinter({ ...rules, ticket: ticket ?? undefined }).lint(
+      message
+    );
+  }
+
+  /**
+   * Reviews the staged changes against the `review.failOn` gate. Returns null when there
+   * is nothing to review; a missing provider, a failure or a timeout throws.
+   */
+  async reviewStagedChanges(): Promise<StagedReview | null> {
+    if (process.env.FYNN_SKIP_HOOKS) return null;
+    if ((await this.git.getStagedFiles()).length === 0) return null;
+
+    const gate = resolveReviewGate(new ConfigService().getConfig().review?.failOn);
+    const review = await withTimeout(
+      new AIService().performCodeReview({ kind: "staged" }),
+      REVIEW_TIMEOUT_MS
+    );
+    if (!review) {
+      throw new Error("the AI provider returned no review");
+    }
+    return { review, gate, blocking: blockingIssues(review, gate) };
+  }
+
+  private async suggest(diffs: GitDiff[]): Promise<CommitSuggestion> {
+    if (new ConfigService().hasCredentials()) {
+      try {
+        return await withTimeout(
+          new AIService().generateCommitMessage(diffs),
+          AI_TIMEOUT_MS
+        );
+      } catch {
+        // Fall through to the offline generator, a hook must not block the commit
+      }
+    }
+    return createOfflineGenerator().generate(diffs);
+  }
+
+  private async detectManager(): Promise<{
+    name: HookManager;
+    file: string;
+  }> {
+    const root = await this.git.getRepositoryRoot();
+
+    const lefthookFile = LEFTHOOK_FILES.map((name) => path.join(root, name)).find(
+      (file) => fs.existsSync(file)
+    );
+    if (lefthookFile) {
+      return { name: "lefthook", file: lefthookFile };
+    }
+
+    const hooksPath = await this.git.getConfigValue("core.hooksPath");
+    const huskyDir = path.join(root, ".husky");
+    if (fs.existsSync(huskyDir) || hooksPath?.includes(".husky")) {
+      return { name: "husky", file: huskyDir };
+    }
+
+    return { name: "git", file: await this.git.getGitPath("hooks") };
+  }
+
+  private installLefthook(hook: HookName, file: string): HookChange {
+    const content = fs.readFileSync(file, "utf8");
+    const block = lefthookBlock(hook);
+    const change = { hook, manager: "lefthook" as const, file };
+
+    if (content.includes(block)) {
+      return { ...change, action: "unchanged" };
+    }
+    // Merging into an existing section needs a YAML editor, leave that to the user
+    if (new RegExp(`^${hook}:`, "m").test(withoutBlock(content, hook))) {
+      return {
+        ...change,
+        action: "manual",
+        note: `add this command under '${hook}':\n${block
+          .split("\n")
+          .slice(3, -1)
+          .join("\n")}`,
+      };
+    }
+    fs.writeFileSync(file, `${withoutBlock(content, hook).trimEnd()}\n\n${block}\n`);
+    return {
+      ...change,
+      action: "installed",
+      note: "run 'npx lefthook install' if lefthook is not installed yet",
+    };
+  }
+
+  private installScript(
+    hook: HookName,
+    file: string,
+    manager: HookManager
+  ): HookChange {
+    const block = shellBlock(hook);
+    const change = { hook, manager, file };
+
+    if (!fs.existsSync(file)) {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, `#!/bin/sh\n${block}\n`, { mode: 0o755 });
+      return { ...change, action: "installed" };
+    }
+
+    const content = fs.readFileSync(file, "utf8");
+    if (content.includes(block)) {
+      return { ...change, action: "unchanged" };
+    }
+    const updated = findBlock(content, hook) !== null;
+    fs.writeFileSync(file, `${withoutBlock(content, hook).trimEnd()}\n${block}\n`);
+    fs.chmodSync(file, 0o755);
+    return { ...change, action: updated ? "updated" : "installed" };
+  }
+
+  private async installGitHook(hook: HookName): Promise<HookChange> {
+    const file = path.join(await this.git.getGitPath("hooks"), hook);
+    const isForeign =
+      fs.existsSync(file) && findBlock(fs.readFileSync(file, "utf8"), hook) === null;
+    if (!isForeign) {
+      return this.installScript(hook, file, "git");
+    }
+
+    // Keep the existing hook working by running it first from our script
+    fs.renameSync(file, file + CHAINED_SUFFIX);
+    const script = [
+      "#!/bin/sh",
+      `"$(dirname "$0")/${hook}${CHAINED_SUFFIX}" "$@" || exit $?`,
+      shellBlock(hook),
+      "",
+    ].join("\n");
+    fs.writeFileSync(file, script, { mode: 0o755 });
+    return {
+      hook,
+      manager: "git",
+      file,
+      action: "installed",
+      note: `the existing hook was moved to ${hook}${CHAINED_SUFFIX} and still runs first`,
+    };
+  }
+
+  private removeBlock(
+    hook: HookName,
+    file: string,
+    manager: HookManager
+  ): HookChange {
+    const change = { hook, manager, file };
+    if (!fs.existsSync(file)) {
+      return { ...change, action: "unchanged" };
+    }
+
+    const content = fs.readFileSync(file, "utf8");
+    if (findBlock(content, hook) === null) {
+      return { ...change, action: "unchanged" };
+    }
+
+    const remaining = withoutBlock(content, hook);
+    const chained = file + CHAINED_SUFFIX;
+    if (manager === "git" && fs.existsSync(chained)) {
+      fs.renameSync(chained, file);
+    } else if (
+      manager !== "lefthook" &&
+      !/\S/.test(remaining.replace(/^#!.*$/m, ""))
+    ) {
+      fs.unlinkSync(file);
+    } else {
+      fs.writeFileSync(file, remaining.trimEnd() + "\n");
+    }
+    return { ...change, action: "removed" };
+  }
+}
@@ -0,0 +1,16 @@
+import fs from "fs";
+
+/** Parsed JSON, null when the file is missing or invalid. The files are hand-written, narrow before use. */
+export function readJson(file: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+export function isPlainObject(
+  value: unknown
+): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
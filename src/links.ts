@@ -0,0 +1,145 @@
+import type {
+  HostingProvider,
+  LinkSettings,
+  LinkTemplates,
+} from "./Types/types";
+
+const PROVIDER_TEMPLATES: Record<HostingProvider, LinkTemplates> = {
+  github: {
+    commit: "{url}/commit/{hash}",
+    compare: "{url}/compare/{from}...{to}",
+    // GitHub redirects issue numbers that belong to pull requests
+    issue: "{url}/issues/{id}",
+  },
+  gitlab: {
+    commit: "{url}/-/commit/{hash}",
+    compare: "{url}/-/compare/{from}...{to}",
+    issue: "{url}/-/issues/{id}",
+  },
+  bitbucket: {
+    commit: "{url}/commits/{hash}",
+    compare: "{url}/branches/compare/{to}%0D{from}",
+    issue: "{url}/issues/{id}",
+  },
+  gitea: {
+    commit: "{url}/commit/{hash}",
+    compare: "{url}/compare/{from}...{to}",
+    issue: "{url}/issues/{id}",
+  },
+};
+
+const HOST_PROVIDERS: Array<[RegExp, HostingProvider]> = [
+  [/github/, "github"],
+  [/gitlab/, "gitlab"],
+  [/bitbucket/, "bitbucket"],
+  [/gitea|codeberg|forgejo/, "gitea"],
+];
+
+/**
+ * Web URL of a repository from its remote URL. Handles HTTPS remotes, scp-like SSH
+ * (`git@host:owner/repo.git`) and `ssh://` URLs, dropping credentials and ports.
+ */
+export function remoteToWebUrl(remote: string): string | null {
+  const trimmed = remote.trim();
+  let host: string;
+  let repoPath: string;
+
+  const scpLike = /^(?:[^@/]+@)?([^:/]+):(?!\/)(.+)$/.exec(trimmed);
+  if (scpLike && !/^[a-z+]+:\/\//i.test(trimmed)) {
+    [, host, repoPath] = scpLike;
+  } else {
+    try {
+      const url = new URL(trimmed);
+      if (!["http:", "https:", "ssh:", "git:", "git+ssh:"].includes(url.protocol)) {
+        return null;
+      }
+      host = url.hostname;
+      repoPath = url.pathname;
+      // Web UIs on a custom HTTP port keep it, SSH ports never serve the web UI
+      if (url.port && url.protocol.startsWith("http")) {
+        host += `:${url.port}`;
+      }
+    } catch {
+      return null;
+    }
+  }
+
+  // Bitbucket Server and some GitLab HTTPS remotes put the repository under /scm/ or /git/
+  repoPath = repoPath
+    .replace(/^\/+|\/+$/g, "")
+    .replace(/\.git$/, "")
+    .replace(/^(scm|git)\//, "");
+  return repoPath ? `https://${host}/${repoPath}` : null;
+}
+
+export function detectHostingProvider(url: string): HostingProvider | null {
+  const host = new URL(url).hostname.toLowerCase();
+  return HOST_PROVIDERS.find(([pattern]) => pattern.test(host))?.[1] ?? null;
+}
+
+/**
+ * Links to commits, tag comparisons and issues on the repository's web UI. Each method
+ * returns undefined when no template is known for that kind of link.
+ */
+export class RepositoryLinks {
+  private templates: Partial<LinkTemplates>;
+  private url: string;
+
+  constructor(templates: Partial<LinkTemplates>, url: string) {
+    this.templates = templates;
+    this.url = url;
+  }
+
+  commit(hash: string): string | undefined {
+    return this.fill(this.templates.commit, { hash });
+  }
+
+  compare(from: string, to: string): string | undefined {
+    return this.fill(this.templates.compare, {
+      from: encodeURIComponent(from),
+      to: encodeURIComponent(to),
+    });
+  }
+
+  issue(id: string): string | undefined {
+    return this.fill(this.templates.issue, { id });
+  }
+
+  private fill(
+    template: string | undefined,
+    values: Record<string, string>
+  ): string | undefined {
+    return template?.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      name === "url" ? this.url : values[name] ?? placeholder
+    );
+  }
+}
+
+/**
+ * Links for a repository from the configured templates, falling back to the scheme of
+ * the hosting provider its remote points to. Returns null when neither is known.
+ */
+export function createRepositoryLinks(
+  remote: string | null,
+  settings: LinkSettings = {}
+): RepositoryLinks | null {
+  const url =
+    settings.url?.replace(/\/+$/, "") ?? (remote ? remoteToWebUrl(remote) : null);
+  // Templates with absolute URLs work without a remote
+  if (!url && !settings.commit && !settings.compare && !settings.issue) {
+    return null;
+  }
+
+  const provider =
+    settings.provider ?? (url ? detectHostingProvider(url) : null);
+  const defaults = provider ? PROVIDER_TEMPLATES[provider] : null;
+  const templates: Partial<LinkTemplates> = {
+    commit: settings.commit ?? defaults?.commit,
+    compare: settings.compare ?? defaults?.compare,
+    issue: settings.issue ?? defaults?.issue,
+  };
+  if (!templates.commit && !templates.compare && !templates.issue) {
+    return null;
+  }
+  return new RepositoryLinks(templates, url ?? "");
+}
@@ -0,0 +1,326 @@
+import {
+  cleanCommitMessage,
+  isBreakingFooter,
+  parseCommitHeader,
+  parseCommitMessage,
+} from "./conventional";
+import { DEFAULT_TICKET_PATTERN, mentionsTicket } from "./tickets";
+import type {
+  CommitRules,
+  LintIssue,
+  LintResult,
+  ParsedCommit,
+} from "./Types/types";
+
+const MAX_BODY_LINE_LENGTH = 100;
+// Common spellings of the standard types, checked before falling back to edit distance
+const TYPE_ALIASES: Record<string, string> = {
+  feature: "feat",
+  features: "feat",
+  bugfix: "fix",
+  hotfix: "fix",
+  doc: "docs",
+  documentation: "docs",
+  tests: "test",
+  refactoring: "refactor",
+  performance: "perf",
+  chores: "chore",
+};
+// parseCommitHeader reads "feat(): x" as having no scope at all
+const EMPTY_SCOPE_PATTERN = /^[\w-]+\(\s*\)/;
+const LOOSE_HEADER_PATTERN =
+  /^([A-Za-z-]+)\s*(?:\(\s*([^()]*?)\s*\))?\s*(!)?\s*:\s*(.+)$/;
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(
+        row[j] + 1,
+        row[j - 1] + 1,
+        previous + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+function closestMatch(value: string, candidates: string[]): string | undefined {
+  const lower = value.toLowerCase();
+  if (candidates.includes(lower)) return lower;
+  const alias = TYPE_ALIASES[lower];
+  if (alias && candidates.includes(alias)) return alias;
+
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = editDistance(lower, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  // Anything further away is a different word, not a typo
+  return bestDistance <= 2 ? best : undefined;
+}
+
+/**
+ * Lints commit messages against the Conventional Commits specification and the
+ * configured types, scopes and subject length. Rule IDs follow commitlint's names.
+ */
+export class CommitLinter {
+  private rules: CommitRules;
+
+  constructor(rules: CommitRules) {
+    this.rules = rules;
+  }
+
+  lint(rawMessage: string): LintResult {
+    const message = cleanCommitMessage(rawMessage);
+    const issues: LintIssue[] = [];
+    let parsed = parseCommitMessage(message);
+    let header = parsed.header;
+
+    if (!message) {
+      issues.push({
+        rule: "header-empty",
+        severity: "error",
+        message: "the commit message is empty",
+      });
+      return { message, issues, valid: false };
+    }
+
+    if (parsed.type === null) {
+      const loose = LOOSE_HEADER_PATTERN.exec(header.trim());
+      if (!loose) {
+        issues.push({
+          rule: "header-format",
+          severity: "error",
+          message: `"${header}" is not a conventional commit header, expected type(scope): description`,
+        });
+        return { message, issues, valid: false };
+      }
+      // Salvage headers that only get the spacing wrong, e.g. "feat (api):add"
+      const [, type, scope, bang, description] = loose;
+      header = `${type}${scope ? `(${scope})` : ""}${bang || ""}: ${description}`;
+      issues.push({
+        rule: "header-format",
+        severity: "error",
+        message: "the header must look like type(scope): description",
+        fix: header,
+      });
+      parsed = parseCommitMessage(
+        [header, ...message.split("\n").slice(1)].join("\n")
+      );
+    }
+
+    const fixed = {
+      type: parsed.type as string,
+      scope: parsed.scope,
+      description: (parsed.description || "").trim(),
+    };
+    this.lintType(parsed, fixed, issues);
+    this.lintScope(header, parsed, fixed, issues);
+    this.lintSubject(parsed, fixed, issues);
+    const needsBlankLine = this.lintBody(message, parsed, issues);
+    this.lintTicket(message, issues);
+
+    const valid = !issues.some((issue) => issue.severity === "error");
+    const scope = fixed.scope ? `(${fixed.scope})` : "";
+    const bang = parseCommitHeader(header)?.breaking ? "!" : "";
+    const fixedHeader = `${fixed.type}${scope}${bang}: ${fixed.description}`;
+    const rest = message.split("\n").slice(1).join("\n");
+    const fixedMessage = rest
+      ? `${fixedHeader}\n${needsBlankLine ? "\n" : ""}${rest}`
+      : fixedHeader;
+    const fixable = issues.some(
+      (issue) => issue.fix !== undefined || issue.hint !== undefined
+    );
+    if (!fixable || fixedMessage === message) {
+      return { message, issues, valid };
+    }
+    return { message, issues, valid, fixed: fixedMessage };
+  }
+
+  private lintType(
+    parsed: ParsedCommit,
+    fixed: { type: string },
+    issues: LintIssue[]
+  ): void {
+    const type = parsed.type as string;
+    const validTypes = this.rules.commitTypes.map((t) => t.type);
+    if (validTypes.includes(type)) return;
+
+    if (validTypes.includes(type.toLowerCase())) {
+      fixed.type = type.toLowerCase();
+      issues.push({
+        rule: "type-case",
+        severity: "error",
+        message: `type "${type}" must be lower-case`,
+        fix: fixed.type,
+      });
+      return;
+    }
+
+    const suggestion = closestMatch(type, validTypes);
+    if (suggestion) {
+      fixed.type = suggestion;
+    }
+    issues.push({
+      rule: "type-enum",
+      severity: "error",
+      message: `type "${type}" is not one of: ${validTypes.join(", ")}`,
+      fix: suggestion,
+    });
+  }
+
+  private lintScope(
+    header: string,
+    parsed: ParsedCommit,
+    fixed: { scope?: string },
+    issues: LintIssue[]
+  ): void {
+    const { scope } = parsed;
+    if (scope === undefined || !scope.trim()) {
+      if (scope !== undefined || EMPTY_SCOPE_PATTERN.test(header.trim())) {
+        fixed.scope = undefined;
+        issues.push({
+          rule: "scope-empty",
+          severity: "error",
+          message: "the scope parentheses are empty",
+          fix: "",
+          hint: "remove the empty ()",
+        });
+      }
+      return;
+    }
+
+    const { scopes, tickets } = this.rules;
+    // With the ticket as scope, any ticket ID is a valid scope
+    const isTicket =
+      tickets?.placement === "scope" &&
+      new RegExp(`^(?:${tickets.pattern ?? DEFAULT_TICKET_PATTERN})$`).test(
+        scope
+      );
+    if (scopes.length > 0 && !scopes.includes(scope) && !isTicket) {
+      const suggestion = closestMatch(scope, scopes);
+      fixed.scope = suggestion;
+      issues.push({
+        rule: "scope-enum",
+        severity: "error",
+        message: `scope "${scope}" is not one of: ${scopes.join(", ")}`,
+        fix: suggestion ?? "",
+        hint: suggestion ? undefined : "remove the scope",
+      });
+    }
+  }
+
+  private lintSubject(
+    parsed: ParsedCommit,
+    fixed: { description: string },
+    issues: LintIssue[]
+  ): void {
+    const description = (parsed.description || "").trim();
+    if (!description) {
+      issues.push({
+        rule: "subject-empty",
+        severity: "error",
+        message: "the description is empty",
+      });
+      return;
+    }
+
+    let result = description;
+    if (result.endsWith(".")) {
+      result = result.replace(/\.+$/, "");
+      issues.push({
+        rule: "subject-full-stop",
+        severity: "error",
+        message: "the description must not end with a period",
+        fix: result,
+      });
+    }
+
+    // Leave acronyms such as "API" alone
+    if (/^[A-Z](?![A-Z])/.test(result)) {
+      result = result[0].toLowerCase() + result.slice(1);
+      issues.push({
+        rule: "subject-case",
+        severity: "warning",
+        message: "the description should start with a lower-case letter",
+        fix: result,
+      });
+    }
+
+    const limit = this.rules.maxSubjectLength;
+    if (result.length > limit) {
+      issues.push({
+        rule: "subject-max-length",
+        severity: "error",
+        message: `the description is ${result.length} characters, the limit is ${limit}`,
+      });
+    }
+    fixed.description = result;
+  }
+
+  /** Returns true when the body needs a blank line after the header. */
+  private lintBody(
+    message: string,
+    parsed: ParsedCommit,
+    issues: LintIssue[]
+  ): boolean {
+    const lines = message.split("\n");
+    const missingBlank = lines.length > 1 && lines[1].trim() !== "";
+    if (missingBlank) {
+      issues.push({
+        rule: "body-leading-blank",
+        severity: "warning",
+        message: "the body must be separated from the header by a blank line",
+        hint: "insert a blank line after the header",
+      });
+    }
+
+    const longLines = (parsed.body || "")
+      .split("\n")
+      .filter(
+        // URLs cannot be wrapped, so they never count
+        (line) => line.length > MAX_BODY_LINE_LENGTH && !/\S+:\/\/\S+/.test(line)
+      );
+    if (longLines.length > 0) {
+      issues.push({
+        rule: "body-max-line-length",
+        severity: "warning",
+        message: `${longLines.length} body line(s) are longer than ${MAX_BODY_LINE_LENGTH} characters`,
+      });
+    }
+
+    parsed.footers
+      .filter((footer) => isBreakingFooter(footer.token) && !footer.value)
+      .forEach(() => {
+        issues.push({
+          rule: "footer-breaking-change",
+          severity: "error",
+          message: "a BREAKING CHANGE footer must describe what breaks",
+        });
+      });
+
+    return missingBlank;
+  }
+
+  private lintTicket(message: string, issues: LintIssue[]): void {
+    const { tickets, ticket } = this.rules;
+    if (!tickets?.required || mentionsTicket(message, tickets, ticket)) return;
+
+    issues.push({
+      rule: "ticket-missing",
+      severity: "warning",
+      message: ticket
+        ? `the message does not reference ${ticket}, the ticket of this branch`
+        : "the message does not reference a ticket",
+    });
+  }
+}
@@ -0,0 +1,366 @@
+import * as path from "path";
+import type {
+  CommitSuggestion,
+  CommitType,
+  GitDiff,
+  WorkspacePackage,
+} from "./Types/types";
+import { matchesGlob } from "./glob";
+import { isGeneratedFile } from "./budget";
+import { ConfigService } from "./config";
+import {
+  findPackage,
+  loadWorkspacePackages,
+  packageScope,
+  packagesForFiles,
+} from "./workspace";
+
+const DOCS_PATTERNS = [
+  "*.md",
+  "*.mdx",
+  "*.rst",
+  "*.adoc",
+  "docs/",
+  "doc/",
+  "LICENSE*",
+  "CHANGELOG*",
+];
+const TEST_PATTERNS = [
+  "*.test.*",
+  "*.spec.*",
+  "*_test.go",
+  "test_*.py",
+  "*_test.py",
+  "test/",
+  "tests/",
+  "__tests__/",
+  "spec/",
+];
+const CI_PATTERNS = [
+  ".github/workflows/",
+  ".github/actions/",
+  ".gitlab-ci.yml",
+  ".circleci/",
+  ".travis.yml",
+  "Jenkinsfile",
+  "azure-pipelines.yml",
+  "bitbucket-pipelines.yml",
+];
+const BUILD_PATTERNS = [
+  "package.json",
+  "tsconfig*.json",
+  "Dockerfile",
+  "docker-compose*.yml",
+  "Makefile",
+  "*.config.js",
+  "*.config.ts",
+  "*.config.mjs",
+  "Cargo.toml",
+  "go.mod",
+  "pyproject.toml",
+  "setup.py",
+  "requirements*.txt",
+  "build.gradle",
+  "pom.xml",
+];
+// Directory names too generic to make a useful scope
+const GENERIC_DIRS = [
+  "src",
+  "lib",
+  "app",
+  "source",
+  "packages",
+  "internal",
+  "pkg",
+  "test",
+  "tests",
+  "docs",
+  ".github",
+  "workflows",
+];
+
+type Category = "docs" | "test" | "ci" | "build" | "source";
+
+const CATEGORY_TYPE: Record<Category, string> = {
+  docs: "docs",
+  test: "test",
+  ci: "ci",
+  build: "build",
+  source: "refactor",
+};
+
+const CATEGORY_NOUN: Record<Category, string> = {
+  docs: "documentation",
+  test: "tests",
+  ci: "ci workflows",
+  build: "build configuration",
+  source: "module",
+};
+
+// Order in which split commits are proposed: dependencies before the code that needs them
+const CATEGORY_ORDER: Category[] = ["build", "source", "test", "docs", "ci"];
+
+function categorize(file: string): Category {
+  if (matchesGlob(file, CI_PATTERNS)) return "ci";
+  if (matchesGlob(file, TEST_PATTERNS)) return "test";
+  if (matchesGlob(file, DOCS_PATTERNS)) return "docs";
+  if (matchesGlob(file, BUILD_PATTERNS) || isGeneratedFile(file)) {
+    return "build";
+  }
+  return "source";
+}
+
+function humanize(name: string): string {
+  return name
+    .replace(/\.[^.]+$/, "")
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/[-_.]+/g, " ")
+    .toLowerCase()
+    .trim();
+}
+
+function commonDirectory(files: string[]): string[] {
+  const split = files.map((file) =>
+    path.posix
+      .dirname(file)
+      .split("/")
+      .filter((p) => p !== ".")
+  );
+  const common: string[] = [];
+  for (let i = 0; split.every((parts) => i < parts.length); i++) {
+    const part = split[0][i];
+    if (!split.every((parts) => parts[i] === part)) break;
+    common.push(part);
+  }
+  return common;
+}
+
+function areaOf(file: string): string {
+  const parts = path.posix.dirname(file).split("/");
+  return parts.find((p) => p !== "." && !GENERIC_DIRS.includes(p)) || "";
+}
+
+function stemOf(file: string): string {
+  return path.posix
+    .basename(file)
+    .replace(/\.[^.]+$/, "")
+    .replace(/([._-](test|spec))$/, "")
+    .replace(/^test_/, "");
+}
+
+function addsExports(diff: GitDiff): boolean {
+  return /^\+\s*(export\s+(default\s+)?(async\s+)?(function|class|const|interface|type)|def |func |pub fn )/m.test(
+    diff.changes
+  );
+}
+
+function onlyDependenciesChanged(diff: GitDiff): boolean {
+  const changed = diff.changes
+    .split("\n")
+    .filter((line) => /^[+-](?![+-]{2})/.test(line));
+  return (
+    changed.length > 0 &&
+    changed.every((line) => /^[+-]\s*"(@?[\w./-]+)":\s*"[~^<>=]*[\d*x]/.test(line))
+  );
+}
+
+export function createOfflineGenerator(): OfflineCommitGenerator {
+  const config = new ConfigService();
+  return new OfflineCommitGenerator(
+    config.getCommitTypes(),
+    config.getScopes(),
+    config.getConfig().maxSubjectLength ?? 50,
+    loadWorkspacePackages()
+  );
+}
+
+/**
+ * Builds a conventional commit from file paths and statuses alone, for when no AI
+ * provider is configured or reachable. The result is deterministic for a given diff.
+ */
+export class OfflineCommitGenerator {
+  private commitTypes: CommitType[];
+  private scopes: string[];
+  private maxLength: number;
+  private packages: WorkspacePackage[];
+
+  constructor(
+    commitTypes: CommitType[],
+    scopes: string[],
+    maxLength: number,
+    packages: WorkspacePackage[] = []
+  ) {
+    this.commitTypes = commitTypes;
+    this.scopes = scopes;
+    this.maxLength = maxLength;
+    this.packages = packages;
+  }
+
+  generate(diffs: GitDiff[]): CommitSuggestion {
+    const files = diffs.map((d) => d.file);
+    const type = this.inferType(diffs);
+    const scope = this.inferScope(files, type);
+    const description = this.truncate(this.describe(diffs, type));
+    const body =
+      diffs.length > 1
+        ? diffs
+            .map((d) => {
+              const target =
+                d.status === "renamed" && d.from
+                  ? `${d.from} -> ${d.file}`
+                  : d.file;
+              return `- ${this.verbFor([d])} ${target}`;
+            })
+            .join("\n")
+        : undefined;
+
+    return { type, scope, description, body, breaking: false };
+  }
+
+  /**
+   * Groups files into logical units: one per kind of change, source split by workspace
+   * package or top-level area, and tests joining the source group of the file they cover.
+   */
+  group(diffs: GitDiff[]): GitDiff[][] {
+    const sources = diffs.filter((d) => categorize(d.file) === "source");
+    const areaFor = (file: string) =>
+      findPackage(this.packages, file)?.dir ?? areaOf(file);
+    const keyFor = (diff: GitDiff): string => {
+      const category = categorize(diff.file);
+      if (category === "test") {
+        const covered = sources.find((s) => stemOf(s.file) === stemOf(diff.file));
+        if (covered) return `source:${areaFor(covered.file)}`;
+      }
+      return category === "source" ? `source:${areaFor(diff.file)}` : category;
+    };
+
+    const groups = new Map<string, GitDiff[]>();
+    for (const diff of diffs) {
+      const key = keyFor(diff);
+      groups.set(key, [...(groups.get(key) || []), diff]);
+    }
+
+    const rank = (key: string) =>
+      CATEGORY_ORDER.indexOf(key.split(":")[0] as Category);
+    return Array.from(groups.entries())
+      .sort(([a], [b]) => rank(a) - rank(b))
+      .map(([, group]) => group);
+  }
+
+  private inferType(diffs: GitDiff[]): string {
+    const category = this.dominantCategory(diffs);
+    let inferred = CATEGORY_TYPE[category];
+
+    if (category === "source") {
+      const introducesCode = diffs.some(
+        (d) =>
+          categorize(d.file) === "source" &&
+          (d.status === "added" || addsExports(d))
+      );
+      if (introducesCode) {
+        inferred = "feat";
+      }
+    }
+
+    const available = this.commitTypes.map((t) => t.type);
+    if (available.includes(inferred)) return inferred;
+    return available.includes("chore") ? "chore" : available[0];
+  }
+
+  private dominantCategory(diffs: GitDiff[]): Category {
+    const categories = diffs.map((d) => categorize(d.file));
+    if (categories.includes("source")) {
+      return "source";
+    }
+    // Without source changes the most frequent category wins, CI and build first on ties
+    const count = (category: Category) =>
+      categories.filter((c) => c === category).length;
+    const order: Category[] = ["ci", "build", "test", "docs"];
+    return order.reduce((best, category) =>
+      count(category) > count(best) ? category : best
+    );
+  }
+
+  private inferScope(files: string[], type: string): string | undefined {
+    // In a workspace the package is the natural scope, as long as there is exactly one
+    const touched = packagesForFiles(this.packages, files);
+    if (touched.length === 1 && files.every((f) => findPackage(this.packages, f))) {
+      const scope = packageScope(touched[0].name);
+      if (this.scopes.length === 0 || this.scopes.includes(scope)) {
+        return scope;
+      }
+    }
+
+    const common = commonDirectory(files).filter(
+      (part) => !GENERIC_DIRS.includes(part)
+    );
+    let scope = common.length > 0 ? common[common.length - 1] : undefined;
+
+    if (!scope && files.length === 1) {
+      scope = humanize(path.posix.basename(files[0])).replace(/\s+/g, "-");
+    }
+    if (!scope) return undefined;
+
+    scope = scope.toLowerCase();
+    if (scope === type) return undefined;
+    if (this.scopes.length > 0) {
+      return this.scopes.find((allowed) => allowed.toLowerCase() === scope);
+    }
+    return scope;
+  }
+
+  private verbFor(diffs: GitDiff[]): string {
+    const statuses = new Set(diffs.map((d) => d.status || "modified"));
+    if (statuses.size === 1) {
+      const [status] = Array.from(statuses);
+      if (status === "added") return "add";
+      if (status === "deleted") return "remove";
+      if (status === "renamed") {
+        const moved = diffs.some(
+          (d) =>
+            d.from &&
+            path.posix.dirname(d.from) !== path.posix.dirname(d.file)
+        );
+        return moved ? "move" : "rename";
+      }
+    }
+    return "update";
+  }
+
+  private describe(diffs: GitDiff[], type: string): string {
+    const verb = this.verbFor(diffs);
+
+    if (diffs.length === 1) {
+      const [diff] = diffs;
+      if (diff.file.endsWith("package.json") && onlyDependenciesChanged(diff)) {
+        return "update dependencies";
+      }
+      if (diff.status === "renamed" && diff.from) {
+        const target =
+          verb === "move"
+            ? path.posix.dirname(diff.file)
+            : path.posix.basename(diff.file);
+        return `${verb} ${path.posix.basename(diff.from)} to ${target}`;
+      }
+      const subject = humanize(path.posix.basename(diff.file));
+      return type === "test" && verb !== "remove"
+        ? `${verb} ${subject.replace(/\s*(test|spec)$/, "")} tests`
+        : `${verb} ${subject}`;
+    }
+
+    const common = commonDirectory(diffs.map((d) => d.file)).filter(
+      (part) => !GENERIC_DIRS.includes(part)
+    );
+    const noun = CATEGORY_NOUN[this.dominantCategory(diffs)];
+    return common.length > 0
+      ? `${verb} ${humanize(common[common.length - 1])} ${noun}`
+      : `${verb} ${noun === "module" ? "files" : noun}`;
+  }
+
+  private truncate(description: string): string {
+    if (description.length <= this.maxLength) return description;
+    const cut = description.slice(0, this.maxLength);
+    const lastSpace = cut.lastIndexOf(" ");
+    return (lastSpace > 0 ? cut.slice(0, lastSpace) : cut).trim();
+  }
+}
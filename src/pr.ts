@@ -0,0 +1,294 @@
+import fs from "fs";
+import path from "path";
+import { AIService } from "./ai";
+import { ChangelogService, renderChangelogItem } from "./changelog";
+import { ConfigService } from "./config";
+import { isTestFile } from "./frameworks";
+import { GitService } from "./git";
+import type {
+  ChangelogRelease,
+  DiffSpec,
+  DiffTarget,
+  GitDiff,
+  IssueReference,
+  PullRequestDescription,
+} from "./Types/types";
+
+// Where GitHub, GitLab and Gitea look for a pull request template, in that order
+const TEMPLATE_FILES = [
+  ".github/pull_request_template.md",
+  ".github/PULL_REQUEST_TEMPLATE.md",
+  "docs/pull_request_template.md",
+  "PULL_REQUEST_TEMPLATE.md",
+  "pull_request_template.md",
+  ".gitlab/merge_request_templates/Default.md",
+  ".gitea/pull_request_template.md",
+];
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const TASK_ITEM_PATTERN = /^\s*[-*]\s+\[[ xX]\]/m;
+
+type SectionKey = "summary" | "changes" | "breaking" | "testing" | "issues";
+
+const SECTION_TITLES: Record<SectionKey, string> = {
+  summary: "Summary",
+  changes: "Changes",
+  breaking: "Breaking Changes",
+  testing: "Testing",
+  issues: "Linked Issues",
+};
+
+// Checked in this order, so "Breaking changes" is not taken for the change list
+const SECTION_HEADINGS: Array<[SectionKey, RegExp]> = [
+  ["breaking", /breaking/i],
+  ["testing", /test|verif|\bqa\b/i],
+  ["issues", /issue|ticket|related|closes|fixes/i],
+  ["changes", /change/i],
+  [
+    "summary",
+    /summary|descri|overview|what|why|purpose|motivation|context|about/i,
+  ],
+];
+
+export interface PullRequestContext {
+  base: string;
+  head: string;
+  mergeBase: string;
+  target: DiffTarget;
+  diffs: GitDiff[];
+  release: ChangelogRelease;
+}
+
+export interface PullRequestText {
+  title: string;
+  summary: string;
+  testing: string[];
+}
+
+/** Humanizes a branch name: `feat/ABC-12-add-login` becomes "ABC-12 add login". */
+function titleFromBranch(branch: string): string {
+  const name = branch
+    .replace(/^.*\//, "")
+    .replace(/([A-Z][A-Z0-9]+-\d+)|[-_]+/g, (separator, ticket?: string) =>
+      ticket ? ticket : " "
+    )
+    .trim();
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function listOrNone(lines: string[]): string {
+  return lines.length > 0 ? lines.join("\n") : "None.";
+}
+
+/**
+ * Fills the sections of a pull request template whose headings match ours. Sections that
+ * are checklists are left for the author, and content without a matching heading is
+ * appended at the end so nothing is lost.
+ */
+export function fillTemplate(
+  template: string,
+  sections: Record<SectionKey, string | null>
+): string {
+  const lines = template.replace(/\r\n/g, "\n").split("\n");
+  const headings = lines
+    .map((line, index) => ({ index, match: HEADING_PATTERN.exec(line) }))
+    .filter((heading) => heading.match !== null);
+  const filled = new Set<SectionKey>();
+  const replacements = new Map<number, { end: number; content: string }>();
+
+  headings.forEach((heading, position) => {
+    const end =
+      position + 1 < headings.length
+        ? headings[position + 1].index
+        : lines.length;
+    const body = lines.slice(heading.index + 1, end).join("\n");
+    if (TASK_ITEM_PATTERN.test(body)) return;
+
+    const key = SECTION_HEADINGS.find(
+      ([candidate, pattern]) =>
+        !filled.has(candidate) && pattern.test(heading.match![2])
+    )?.[0];
+    if (!key) return;
+    filled.add(key);
+    replacements.set(heading.index, {
+      end,
+      content: sections[key] ?? "None.",
+    });
+  });
+
+  const output: string[] = [];
+  for (let index = 0; index < lines.length; index++) {
+    output.push(lines[index]);
+    const replacement = replacements.get(index);
+    if (replacement) {
+      output.push("", replacement.content, "");
+      index = replacement.end - 1;
+    }
+  }
+
+  const level = headings[0]?.match![1] ?? "##";
+  const missing = (Object.keys(SECTION_TITLES) as SectionKey[]).filter(
+    (key) => !filled.has(key) && sections[key]
+  );
+  for (const key of missing) {
+    output.push("", `${level} ${SECTION_TITLES[key]}`, "", sections[key]!);
+  }
+  return output.join("\n").replace(/\n{3,}/g, "\n\n").trim() + "\n";
+}
+
+/**
+ * Describes the current branch as a pull request against its base: the commits since the
+ * merge-base, grouped like the changelog, with a summary and testing notes on top.
+ */
+export class PullRequestService {
+  private git: GitService;
+  private config: ConfigService;
+
+  constructor() {
+    this.git = new GitService();
+    this.config = new ConfigService();
+  }
+
+  /** Commits and combined diff of HEAD since it forked from `base`, the configured or default branch. */
+  async collect(base?: string): Promise<PullRequestContext> {
+    const resolved = await this.git.resolveBaseBranch(
+      base ?? this.config.getConfig().baseBranch
+    );
+
+    const head = await this.git.getCurrentBranch();
+    const mergeBase = await this.git.getMergeBase(resolved, "HEAD");
+    const spec: DiffSpec = {
+      kind: "range",
+      from: resolved,
+      to: "HEAD",
+      mergeBase: true,
+    };
+    const target = await this.git.describeDiff(spec);
+    if (target.commits.length === 0) {
+      throw new Error(
+        `No commits on ${head} since it forked from ${resolved}, nothing to describe`
+      );
+    }
+
+    const diffs = await this.git.getDiff(spec);
+    const release = await new ChangelogService().buildRelease({
+      from: mergeBase,
+      to: "HEAD",
+      version: head,
+    });
+    return {
+      base: resolved,
+      head,
+      mergeBase,
+      target: { ...target, label: `${resolved}...${head}` },
+      diffs,
+      release,
+    };
+  }
+
+  summarizeOffline(context: PullRequestContext): PullRequestText {
+    const { target, diffs, release } = context;
+    const commitCount = target.commits.length;
+    const insertions = diffs.reduce((sum, d) => sum + d.insertions, 0);
+    const deletions = diffs.reduce((sum, d) => sum + d.deletions, 0);
+    const sections = release.sections
+      .map(
+        (section) =>
+          `${section.heading.replace(/^\W+/, "").toLowerCase()} (${
+            section.entries.length
+          })`
+      )
+      .join(", ");
+    const tests = diffs
+      .map((d) => d.file)
+      .filter((file) => isTestFile(file));
+
+    return {
+      title:
+        commitCount === 1
+          ? target.commits[0].message
+          : titleFromBranch(context.head),
+      summary: `${commitCount} commit(s) changing ${diffs.length} file(s) (+${insertions}/-${deletions})${
+        sections ? `: ${sections}` : ""
+      }.`,
+      testing:
+        tests.length > 0
+          ? [`Tests changed: ${tests.map((file) => `\`${file}\``).join(", ")}`]
+          : ["No test files were changed"],
+    };
+  }
+
+  async summarizeWithAI(context: PullRequestContext): Promise<PullRequestText> {
+    return new AIService().describePullRequest(context.target, context.diffs);
+  }
+
+  /** The Markdown body, filled into the repository's template unless `useTemplate` is false. */
+  async render(
+    context: PullRequestContext,
+    text: PullRequestText,
+    useTemplate = true
+  ): Promise<PullRequestDescription> {
+    const { release } = context;
+    const changes = release.sections.flatMap((section) => [
+      ...(release.sections.length > 1 ? ["", `**${section.heading}**`] : []),
+      ...section.entries.map(renderChangelogItem),
+    ]);
+    const references = new Map<string, IssueReference>();
+    for (const entry of release.sections.flatMap((s) => s.entries)) {
+      for (const reference of entry.references || []) {
+        // A closing footer says more than a mention of the same issue
+        if (!references.get(reference.id)?.action) {
+          references.set(reference.id, reference);
+        }
+      }
+    }
+    const issues = Array.from(references.values()).map((reference) => {
+      const link = reference.url
+        ? `[#${reference.id}](${reference.url})`
+        : `#${reference.id}`;
+      const action = reference.action
+        ? reference.action.charAt(0).toUpperCase() + reference.action.slice(1)
+        : "Refs";
+      return `- ${action} ${link}`;
+    });
+
+    const sections: Record<SectionKey, string | null> = {
+      summary: text.summary,
+      changes: changes.join("\n").trim(),
+      breaking:
+        release.breakingChanges.length > 0
+          ? release.breakingChanges.map(renderChangelogItem).join("\n")
+          : null,
+      testing: listOrNone(text.testing.map((note) => `- ${note}`)),
+      issues: issues.length > 0 ? issues.join("\n") : null,
+    };
+
+    const template = useTemplate ? await this.findTemplate() : null;
+    const body = template
+      ? fillTemplate(fs.readFileSync(template.file, "utf8"), sections)
+      : (Object.keys(SECTION_TITLES) as SectionKey[])
+          .filter((key) => sections[key])
+          .map((key) => `## ${SECTION_TITLES[key]}\n\n${sections[key]}`)
+          .join("\n\n") + "\n";
+
+    return {
+      base: context.base,
+      head: context.head,
+      mergeBase: context.mergeBase,
+      commits: context.target.commits,
+      title: text.title,
+      body,
+      template: template?.relative,
+    };
+  }
+
+  private async findTemplate(): Promise<{
+    file: string;
+    relative: string;
+  } | null> {
+    const root = await this.git.getRepositoryRoot();
+    const relative = TEMPLATE_FILES.find((file) =>
+      fs.existsSync(path.join(root, file))
+    );
+    return relative ? { file: path.join(root, relative), relative } : null;
+  }
+}
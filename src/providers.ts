@@ -0,0 +1,90 @@
+import type { LanguageModel } from "ai";
+import { createOpenAI } from "@ai-sdk/openai";
+import { createAnthropic } from "@ai-sdk/anthropic";
+import type { ProviderName, ProviderSettings } from "./Types/types";
+
+export interface ProviderDefaults {
+  label: string;
+  model: string;
+  temperature?: number;
+  baseURL?: string;
+  apiKeyEnv?: string;
+  requiresApiKey: boolean;
+}
+
+export const PROVIDER_DEFAULTS: Record<ProviderName, ProviderDefaults> = {
+  openai: {
+    label: "OpenAI",
+    model: "gpt-4o-mini",
+    apiKeyEnv: "OPENAI_API_KEY",
+    requiresApiKey: true,
+  },
+  anthropic: {
+    label: "Anthropic",
+    model: "claude-3-5-haiku-latest",
+    apiKeyEnv: "ANTHROPIC_API_KEY",
+    requiresApiKey: true,
+  },
+  ollama: {
+    label: "Ollama",
+    model: "llama3.1",
+    temperature: 0.2,
+    baseURL: "http://localhost:11434/v1",
+    requiresApiKey: false,
+  },
+  "openai-compatible": {
+    label: "OpenAI-compatible endpoint",
+    model: "default",
+    apiKeyEnv: "FYNN_API_KEY",
+    requiresApiKey: false,
+  },
+};
+
+export const PROVIDER_NAMES = Object.keys(PROVIDER_DEFAULTS) as ProviderName[];
+
+export function isProviderName(value: string): value is ProviderName {
+  return (PROVIDER_NAMES as string[]).includes(value);
+}
+
+export function getProviderLabel(provider: ProviderName): string {
+  return PROVIDER_DEFAULTS[provider].label;
+}
+
+export function hasProviderCredentials(settings: ProviderSettings): boolean {
+  if (settings.provider === "openai-compatible" && !settings.baseURL) {
+    return false;
+  }
+  return !PROVIDER_DEFAULTS[settings.provider].requiresApiKey || !!settings.apiKey;
+}
+
+export function createLanguageModel(settings: ProviderSettings): LanguageModel {
+  switch (settings.provider) {
+    case "openai":
+      return createOpenAI({
+        apiKey: settings.apiKey,
+        baseURL: settings.baseURL,
+        compatibility: "strict",
+      })(settings.model);
+    case "anthropic":
+      return createAnthropic({
+        apiKey: settings.apiKey,
+        baseURL: settings.baseURL,
+      })(settings.model);
+    case "ollama":
+    case "openai-compatible":
+      if (!settings.baseURL) {
+        throw new Error(
+          `A base URL is required for the ${getProviderLabel(
+            settings.provider
+          )} provider`
+        );
+      }
+      // Local servers ignore the key, but the OpenAI client refuses to send
+      // a request without one.
+      return createOpenAI({
+        apiKey: settings.apiKey || "not-needed",
+        baseURL: settings.baseURL,
+        compatibility: "compatible",
+      })(settings.model);
+  }
+}
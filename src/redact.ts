@@ -0,0 +1,215 @@
+import type { GitDiff, Redaction, RedactionConfig } from "./Types/types";
+import { matchesGlob } from "./glob";
+import { SecretFileBlockedError } from "./errors";
+
+interface SecretPattern {
+  kind: string;
+  regex: RegExp;
+  // Index of the capture group holding the secret, the whole match when omitted
+  group?: number;
+}
+
+const SECRET_PATTERNS: SecretPattern[] = [
+  {
+    kind: "private-key",
+    regex:
+      /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  },
+  { kind: "aws-access-key", regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { kind: "github-token", regex: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{40,})\b/g },
+  { kind: "anthropic-key", regex: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { kind: "openai-key", regex: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/g },
+  { kind: "stripe-key", regex: /\b(?:sk|rk)_(?:live|test)_[A-Za-z0-9]{16,}\b/g },
+  { kind: "slack-token", regex: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { kind: "google-api-key", regex: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  {
+    kind: "jwt",
+    regex: /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+  },
+  {
+    kind: "connection-string-password",
+    regex: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/]+:([^\s@/]+)@/gi,
+    group: 1,
+  },
+  {
+    kind: "credential-assignment",
+    regex:
+      /\b(?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|client[_-]?secret)\w*["']?\s*[:=]\s*["']([^"'\s]{6,})["']/gi,
+    group: 1,
+  },
+  {
+    kind: "credential-assignment",
+    regex:
+      /^[+-]?\s*(?:export\s+)?[A-Z0-9_]*(?:PASSWORD|SECRET|TOKEN|API_KEY|ACCESS_KEY|PRIVATE_KEY)[A-Z0-9_]*\s*=\s*([^\s"']{6,})/gm,
+    group: 1,
+  },
+];
+
+const EMAIL_PATTERN: SecretPattern = {
+  kind: "email",
+  regex: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+};
+
+export const SECRET_STORE_PATTERNS = [
+  ".env",
+  ".env.*",
+  "*.pem",
+  "*.key",
+  "*.p12",
+  "*.pfx",
+  "*.keystore",
+  "*.jks",
+  "id_rsa",
+  "id_dsa",
+  "id_ecdsa",
+  "id_ed25519",
+  ".netrc",
+  ".pgpass",
+  "credentials.json",
+  ".aws/credentials",
+  "secrets.yml",
+  "secrets.yaml",
+  "*.tfvars",
+];
+
+// Templates that document which variables exist without holding values
+const SECRET_STORE_EXCEPTIONS = [
+  ".env.example",
+  ".env.sample",
+  ".env.template",
+  ".env.dist",
+  "*.pub",
+];
+
+const DEFAULT_ENTROPY_THRESHOLD = 4.0;
+// Slashes are left out so file paths are never mistaken for tokens
+const HIGH_ENTROPY_CANDIDATE = /[A-Za-z0-9+_=-]{24,}/g;
+
+const redactionLog: Redaction[] = [];
+
+/** Everything redacted during this process, for the --show-redactions report. */
+export function getRedactionReport(): Redaction[] {
+  const seen = new Set<string>();
+  return redactionLog.filter((r) => {
+    const key = `${r.kind}|${r.file || ""}|${r.preview}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function maskPreview(secret: string): string {
+  const visible = secret.slice(0, 4);
+  return `${visible}… (${secret.length} chars)`;
+}
+
+export class Redactor {
+  private settings: RedactionConfig;
+  private customPatterns: SecretPattern[];
+
+  constructor(settings: RedactionConfig = {}) {
+    this.settings = settings;
+    this.customPatterns = (settings.patterns || []).map((source, index) => ({
+      kind: `custom-${index + 1}`,
+      regex: new RegExp(source, "g"),
+    }));
+  }
+
+  get enabled(): boolean {
+    return this.settings.enabled !== false;
+  }
+
+  isSecretStore(file: string): boolean {
+    if (matchesGlob(file, this.settings.allowPaths)) return false;
+    if (matchesGlob(file, SECRET_STORE_EXCEPTIONS)) return false;
+    return matchesGlob(file, SECRET_STORE_PATTERNS);
+  }
+
+  /** Throws when a diff touches a file that looks like a secret store. */
+  assertNoSecretStores(diffs: GitDiff[]): void {
+    if (!this.enabled) return;
+    const blocked = diffs.map((d) => d.file).filter((f) => this.isSecretStore(f));
+    if (blocked.length > 0) {
+      throw new SecretFileBlockedError(blocked);
+    }
+  }
+
+  /** Drops secret stores instead of blocking, for scans over history the user cannot unstage. */
+  withholdSecretStores(diffs: GitDiff[]): GitDiff[] {
+    if (!this.enabled) return diffs;
+    return diffs.filter((diff) => {
+      if (!this.isSecretStore(diff.file)) return true;
+      redactionLog.push({
+        kind: "secret-store",
+        file: diff.file,
+        preview: "file left out of the prompt",
+      });
+      return false;
+    });
+  }
+
+  redactDiffs(diffs: GitDiff[]): GitDiff[] {
+    if (!this.enabled) return diffs;
+    return diffs.map((diff) => {
+      if (matchesGlob(diff.file, this.settings.denyPaths)) {
+        redactionLog.push({
+          kind: "deny-listed-path",
+          file: diff.file,
+          preview: "entire diff withheld",
+        });
+        return {
+          ...diff,
+          changes: `[content withheld: ${diff.file} is on the redaction deny-list]`,
+        };
+      }
+      return { ...diff, changes: this.redactText(diff.changes, diff.file) };
+    });
+  }
+
+  redactText(text: string, file?: string): string {
+    if (!this.enabled) return text;
+
+    const patterns = [...SECRET_PATTERNS, ...this.customPatterns];
+    if (this.settings.emails !== false) {
+      patterns.push(EMAIL_PATTERN);
+    }
+
+    let result = text;
+    for (const pattern of patterns) {
+      result = result.replace(pattern.regex, (match, ...groups) => {
+        const secret =
+          pattern.group !== undefined ? String(groups[pattern.group - 1]) : match;
+        if (secret.startsWith("<redacted:")) return match;
+        redactionLog.push({ kind: pattern.kind, file, preview: maskPreview(secret) });
+        return match.replace(secret, `<redacted:${pattern.kind}>`);
+      });
+    }
+
+    const threshold = this.settings.entropyThreshold ?? DEFAULT_ENTROPY_THRESHOLD;
+    return result.replace(HIGH_ENTROPY_CANDIDATE, (candidate) => {
+      // Require letters of both cases and digits so hashes, paths and identifiers survive
+      const mixed =
+        /[a-z]/.test(candidate) && /[A-Z]/.test(candidate) && /\d/.test(candidate);
+      if (!mixed || shannonEntropy(candidate) < threshold) return candidate;
+      redactionLog.push({
+        kind: "high-entropy-string",
+        file,
+        preview: maskPreview(candidate),
+      });
+      return "<redacted:high-entropy-string>";
+    });
+  }
+}
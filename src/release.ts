@@ -0,0 +1,362 @@
+import fs from "fs";
+import path from "path";
+import { ChangelogService, tagFilterFor } from "./changelog";
+import { ConfigService } from "./config";
+import { parseCommitMessage } from "./conventional";
+import { GitService } from "./git";
+import type {
+  BumpType,
+  CommitInfo,
+  FynnConfig,
+  ReleasePlan,
+  WorkspacePackage,
+} from "./Types/types";
+
+export const BUMP_TYPES: BumpType[] = ["patch", "minor", "major"];
+
+const VERSION_PATTERN =
+  /^(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+// `version = "1.2.3"` in TOML, `version: 1.2.3` in YAML
+const VERSION_FIELD_PATTERN = /^(\s*version\s*[=:]\s*["']?)([^"'\s]+)/m;
+const DEFAULT_VERSION_FILES = ["package.json"];
+
+interface Version {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+function parseVersion(value: string): Version | null {
+  const match = VERSION_PATTERN.exec(value.trim());
+  if (!match) return null;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split(".") : [],
+  };
+}
+
+export function isVersion(value: string): boolean {
+  return parseVersion(value) !== null;
+}
+
+/**
+ * Next version after `current`. A pre-release such as 1.1.0-rc.1 already carries its
+ * bump, so releasing it again only moves the counter, or drops the suffix when `preid`
+ * is not given, unless the commits call for a bigger bump than the base reflects.
+ */
+export function bumpVersion(
+  current: string,
+  bump: BumpType,
+  preid?: string
+): string {
+  const version = parseVersion(current);
+  if (!version) {
+    throw new Error(`'${current}' is not a semantic version`);
+  }
+  const { major, minor, patch, prerelease } = version;
+
+  if (prerelease.length > 0) {
+    const base = `${major}.${minor}.${patch}`;
+    const carried: BumpType =
+      patch !== 0 ? "patch" : minor !== 0 ? "minor" : "major";
+    if (BUMP_TYPES.indexOf(bump) <= BUMP_TYPES.indexOf(carried)) {
+      if (!preid) return base;
+      const [id, counter] = prerelease;
+      return id === preid && /^\d+$/.test(counter ?? "")
+        ? `${base}-${preid}.${Number(counter) + 1}`
+        : `${base}-${preid}.1`;
+    }
+  }
+
+  const next =
+    bump === "major"
+      ? `${major + 1}.0.0`
+      : bump === "minor"
+      ? `${major}.${minor + 1}.0`
+      : `${major}.${minor}.${patch + 1}`;
+  return preid ? `${next}-${preid}.1` : next;
+}
+
+/** The smallest bump that covers every commit: breaking changes, then features, then the rest. */
+export function detectBump(commits: CommitInfo[]): {
+  bump: BumpType;
+  reason: string;
+} {
+  const parsed = commits.map((commit) =>
+    parseCommitMessage(
+      commit.body ? `${commit.message}\n\n${commit.body}` : commit.message
+    )
+  );
+  const breaking = parsed.filter((commit) => commit.breaking).length;
+  const features = parsed.filter((commit) => commit.type === "feat").length;
+
+  if (breaking > 0) {
+    return { bump: "major", reason: `${breaking} breaking change(s)` };
+  }
+  if (features > 0) {
+    return { bump: "minor", reason: `${features} new feature(s)` };
+  }
+  return {
+    bump: "patch",
+    reason: `${commits.length} commit(s) without features or breaking changes`,
+  };
+}
+
+function versionDifference(from: string, to: string): BumpType {
+  const a = parseVersion(from);
+  const b = parseVersion(to);
+  if (!a || !b || a.major !== b.major) return "major";
+  return a.minor !== b.minor ? "minor" : "patch";
+}
+
+function readVersion(file: string): string | null {
+  const content = fs.readFileSync(file, "utf8");
+  if (file.endsWith(".json")) {
+    const version = JSON.parse(content).version;
+    return typeof version === "string" ? version : null;
+  }
+  if (isVersion(content)) return content.trim();
+  return VERSION_FIELD_PATTERN.exec(content)?.[2] ?? null;
+}
+
+function writeVersion(file: string, version: string): void {
+  const content = fs.readFileSync(file, "utf8");
+
+  if (file.endsWith(".json")) {
+    const data = JSON.parse(content);
+    data.version = version;
+    // npm lockfiles repeat the root package's version
+    if (data.packages?.[""]?.version) {
+      data.packages[""].version = version;
+    }
+    const indent = /^[ \t]+(?=")/m.exec(content)?.[0] ?? 2;
+    const ending = content.endsWith("\n") ? "\n" : "";
+    fs.writeFileSync(file, JSON.stringify(data, null, indent) + ending);
+    return;
+  }
+
+  if (isVersion(content)) {
+    fs.writeFileSync(file, version + "\n");
+    return;
+  }
+  if (!VERSION_FIELD_PATTERN.test(content)) {
+    throw new Error(`No version field found in ${file}`);
+  }
+  fs.writeFileSync(
+    file,
+    content.replace(VERSION_FIELD_PATTERN, `$1${version}`)
+  );
+}
+
+/**
+ * Works out the next semantic version from the conventional commits since the last
+ * tag, then writes the version files and changelog and creates the release commit and tag.
+ */
+export class ReleaseService {
+  private git: GitService;
+  private config: ConfigService;
+  private settings: FynnConfig;
+
+  constructor() {
+    this.git = new GitService();
+    this.config = new ConfigService();
+    this.settings = this.config.getConfig();
+  }
+
+  /**
+   * `releaseAs` forces a bump type or an exact version, `preid` cuts a pre-release
+   * such as 1.2.0-rc.1, and `pkg` releases one workspace package with `name@version`
+   * tags from the commits touching it. Nothing is written.
+   */
+  async plan(
+    options: {
+      releaseAs?: string;
+      preid?: string;
+      pkg?: WorkspacePackage;
+    } = {}
+  ): Promise<ReleasePlan> {
+    const root = await this.git.getRepositoryRoot();
+    const { pkg } = options;
+    const tagFilter = tagFilterFor(pkg);
+    const nearestTag = await this.git.findNearestTag("HEAD", tagFilter);
+    const prefix = pkg
+      ? `${pkg.name}@`
+      : this.settings.tagPrefix ??
+        (nearestTag
+          ? /^(.*?)\d+\.\d+\.\d+/.exec(nearestTag)?.[1]
+          : undefined) ??
+        "v";
+    // A final release covers everything since the last final release, not since the last rc
+    const previousTag = options.preid
+      ? nearestTag
+      : (await this.git.getTags(tagFilter))
+          .filter((tag) => {
+            const version = parseVersion(tag.slice(prefix.length));
+            return tag.startsWith(prefix) && version?.prerelease.length === 0;
+          })
+          .pop() ?? nearestTag;
+
+    const versionFiles = await this.getVersionFiles(root, pkg);
+    const taggedVersion =
+      previousTag && previousTag.startsWith(prefix)
+        ? previousTag.slice(prefix.length)
+        : null;
+    const currentVersion =
+      (taggedVersion && isVersion(taggedVersion) ? taggedVersion : null) ??
+      (versionFiles.length > 0 ? readVersion(versionFiles[0]) : null) ??
+      "0.0.0";
+
+    const commits = await this.git.getCommitsBetween(
+      previousTag,
+      "HEAD",
+      undefined,
+      pkg ? [pkg.dir] : undefined
+    );
+    if (commits.length === 0 && !options.releaseAs) {
+      throw new Error(
+        `No commits since ${previousTag ?? "the first commit"}, nothing to release`
+      );
+    }
+
+    let { bump, reason } = detectBump(commits);
+    let nextVersion: string;
+    if (options.releaseAs && isVersion(options.releaseAs)) {
+      nextVersion = options.releaseAs;
+      reason = `--as ${options.releaseAs}`;
+      bump = versionDifference(currentVersion, nextVersion);
+    } else if (options.releaseAs) {
+      if (!BUMP_TYPES.includes(options.releaseAs as BumpType)) {
+        throw new Error(
+          `--as expects ${BUMP_TYPES.join(", ")} or a version such as 2.0.0, got '${options.releaseAs}'`
+        );
+      }
+      bump = options.releaseAs as BumpType;
+      reason = `--as ${bump}`;
+      nextVersion = bumpVersion(currentVersion, bump, options.preid);
+    } else {
+      nextVersion = bumpVersion(currentVersion, bump, options.preid);
+    }
+
+    const tag = `${prefix}${nextVersion}`;
+    if (await this.git.isTag(tag)) {
+      throw new Error(`Tag ${tag} already exists`);
+    }
+
+    const changelog = new ChangelogService(pkg);
+    const release = await changelog.buildRelease({
+      from: previousTag ?? undefined,
+      to: "HEAD",
+      version: nextVersion,
+    });
+
+    return {
+      currentVersion,
+      nextVersion,
+      bump,
+      reason,
+      previousTag,
+      tag,
+      commitMessage: this.commitMessage(
+        pkg ? `${pkg.name}@${nextVersion}` : nextVersion
+      ),
+      versionFiles: versionFiles.map((file) => path.relative(root, file)),
+      release,
+      changelog: changelog.renderRelease(release),
+      package: pkg,
+    };
+  }
+
+  /**
+   * Applies a plan. The files are restored when the release commit fails, so a rejected
+   * commit leaves the working tree as it was.
+   */
+  async apply(plan: ReleasePlan, changelogFile: string): Promise<void> {
+    const root = await this.git.getRepositoryRoot();
+    if ((await this.git.getStagedFiles()).length > 0) {
+      throw new Error(
+        "Commit or unstage the staged changes first, they would end up in the release commit"
+      );
+    }
+
+    const files = [
+      ...plan.versionFiles.map((file) => path.join(root, file)),
+      changelogFile,
+    ];
+    const originals = new Map(
+      files.map((file) => [
+        file,
+        fs.existsSync(file) ? fs.readFileSync(file, "utf8") : null,
+      ])
+    );
+
+    try {
+      for (const file of plan.versionFiles) {
+        writeVersion(path.join(root, file), plan.nextVersion);
+      }
+      new ChangelogService().prepend(
+        changelogFile,
+        [{ version: plan.nextVersion, markdown: plan.changelog }],
+        true
+      );
+      await this.git.stageFiles(files);
+      await this.git.commit(plan.commitMessage);
+    } catch (error) {
+      await this.git.unstageFiles(files).catch(() => undefined);
+      originals.forEach((content, file) => {
+        if (content === null) {
+          fs.rmSync(file, { force: true });
+        } else {
+          fs.writeFileSync(file, content);
+        }
+      });
+      throw error;
+    }
+
+    try {
+      await this.git.createAnnotatedTag(
+        plan.tag,
+        `Release ${plan.package ? `${plan.package.name}@` : ""}${
+          plan.nextVersion
+        }`
+      );
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `The release commit was created but tagging failed, run 'git tag -a ${plan.tag}': ${reason}`
+      );
+    }
+  }
+
+  private async getVersionFiles(
+    root: string,
+    pkg?: WorkspacePackage
+  ): Promise<string[]> {
+    // versionFiles describes the repository itself, a package keeps its version in package.json
+    const configured = pkg ? undefined : this.settings.versionFiles;
+    const files = (configured ?? DEFAULT_VERSION_FILES).map((file) =>
+      path.join(root, pkg ? pkg.dir : "", file)
+    );
+    const missing = files.filter((file) => !fs.existsSync(file));
+    // Only a configured list is a promise that the files exist
+    if (configured && missing.length > 0) {
+      throw new Error(
+        `Version file(s) not found: ${missing
+          .map((file) => path.relative(root, file))
+          .join(", ")}`
+      );
+    }
+    return files.filter((file) => fs.existsSync(file));
+  }
+
+  private commitMessage(release: string): string {
+    const { commitTypes, scopes } = this.config.getCommitRules();
+    const types = commitTypes.map((t) => t.type);
+    const type = types.includes("chore") ? "chore" : types[0];
+    const scope =
+      scopes.length === 0 || scopes.includes("release") ? "(release)" : "";
+    return `${type}${scope}: ${release}`;
+  }
+}
@@ -0,0 +1,34 @@
+import type {
+  CodeReview,
+  CodeReviewIssue,
+  ReviewGate,
+} from "./Types/types";
+
+export const REVIEW_GATES: ReviewGate[] = ["high", "medium"];
+
+const SEVERITY_RANK: Record<CodeReviewIssue["severity"], number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+};
+
+/** The gate from the command line or the `review.failOn` setting, "high" when neither sets one. */
+export function resolveReviewGate(value?: string): ReviewGate {
+  const gate = value ?? "high";
+  if (!REVIEW_GATES.includes(gate as ReviewGate)) {
+    throw new Error(
+      `Unknown severity '${gate}' for failOn, use one of: ${REVIEW_GATES.join(", ")}`
+    );
+  }
+  return gate as ReviewGate;
+}
+
+/** The issues at or above the gate's severity, any of them fails the review. */
+export function blockingIssues(
+  review: CodeReview,
+  gate: ReviewGate
+): CodeReviewIssue[] {
+  return (review.issues ?? []).filter(
+    (issue) => SEVERITY_RANK[issue.severity] >= SEVERITY_RANK[gate]
+  );
+}
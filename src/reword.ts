@@ -0,0 +1,149 @@
+import { AIService, formatCommitFooters, formatCommitMessage } from "./ai";
+import { ConfigService } from "./config";
+import { isGeneratedMessage } from "./conventional";
+import { GitService } from "./git";
+import { CommitLinter } from "./lint";
+import { createOfflineGenerator } from "./offline";
+import { applyTicket, getBranchTicket } from "./tickets";
+import type { CommitInfo, CommitSuggestion, LintResult } from "./Types/types";
+
+export interface RewordCandidate {
+  commit: CommitInfo;
+  lint: LintResult;
+}
+
+export interface Rewording {
+  commit: CommitInfo;
+  message: string;
+  // Where the new message came from: the linter's own fix, the AI provider or the path heuristics
+  source: "fix" | "ai" | "offline";
+}
+
+function fullMessage(commit: CommitInfo): string {
+  return commit.body ? `${commit.message}\n\n${commit.body}` : commit.message;
+}
+
+/**
+ * Finds commits in a range that break the commit conventions and rewrites their messages
+ * in place. Trees, authors and dates are kept, so only the messages and hashes change.
+ */
+export class RewordService {
+  private git: GitService;
+  private config: ConfigService;
+  private linter: CommitLinter;
+
+  constructor() {
+    this.git = new GitService();
+    this.config = new ConfigService();
+    this.linter = new CommitLinter(this.config.getCommitRules());
+  }
+
+  /** Commits in `range` whose message has lint errors, newest first. Merges and reverts are skipped. */
+  async findCandidates(
+    range: string
+  ): Promise<{ total: number; candidates: RewordCandidate[] }> {
+    const commits = await this.git.getCommitsInRange(range);
+    const candidates = commits
+      .filter((commit) => !isGeneratedMessage(commit.message))
+      .map((commit) => ({ commit, lint: this.linter.lint(fullMessage(commit)) }))
+      .filter(({ lint }) => !lint.valid);
+    return { total: commits.length, candidates };
+  }
+
+  /**
+   * A conventional message for one commit. A valid automatic fix keeps the author's words;
+   * otherwise a subject is generated from the commit's diff and the original body is kept.
+   */
+  async suggest(
+    candidate: RewordCandidate,
+    offline = false
+  ): Promise<Rewording> {
+    const { commit, lint } = candidate;
+    if (lint.fixed && this.linter.lint(lint.fixed).valid) {
+      return { commit, message: lint.fixed, source: "fix" };
+    }
+
+    const diffs = await this.git.getDiff({ kind: "commit", ref: commit.hash });
+    let suggestion: CommitSuggestion | null = null;
+    if (diffs.length === 0) {
+      // Nothing to describe in an empty commit, keep what its author said
+      suggestion = {
+        type: "chore",
+        description: commit.message.replace(/[.\s]+$/, "").toLowerCase(),
+      };
+    } else if (!offline && this.config.hasCredentials()) {
+      // The offline heuristics are a fine answer for one commit, a failure should not stop the rest
+      suggestion = await new AIService()
+        .generateCommitMessage(diffs)
+        .catch(() => null);
+    }
+    const source = suggestion && diffs.length > 0 ? "ai" : "offline";
+    suggestion ??= createOfflineGenerator().generate(diffs);
+
+    // The history being reworded is the current branch's, so is its ticket
+    const tickets = this.config.getConfig().tickets;
+    const ticket = await getBranchTicket(this.git, tickets);
+    const body = commit.body?.trim() || suggestion.body;
+    if (tickets && ticket && !body?.includes(ticket)) {
+      suggestion = applyTicket(suggestion, ticket, tickets);
+    }
+    return {
+      commit,
+      message: [
+        formatCommitMessage(suggestion),
+        body,
+        formatCommitFooters(suggestion),
+      ]
+        .filter(Boolean)
+        .join("\n\n"),
+      source,
+    };
+  }
+
+  /**
+   * Rewrites the messages and moves the current branch to the result. Commits that are
+   * already on the upstream are refused unless `force` is set, and HEAD is saved to a
+   * backup ref before anything changes.
+   */
+  async apply(rewordings: Rewording[], force = false): Promise<string> {
+    const head = await this.git.getHeadHash();
+    for (const { commit } of rewordings) {
+      if (!(await this.git.isAncestor(commit.hash, head))) {
+        throw new Error(
+          `${commit.hash.substring(0, 7)} is not on the current branch, only its history can be reworded`
+        );
+      }
+    }
+
+    let oldest = rewordings[0].commit.hash;
+    for (const { commit } of rewordings) {
+      if (await this.git.isAncestor(commit.hash, oldest)) {
+        oldest = commit.hash;
+      }
+    }
+
+    if (!force) {
+      const upstream = await this.git.getUpstream();
+      const published = upstream
+        ? (await this.git.isAncestor(oldest, upstream))
+          ? [upstream]
+          : []
+        : await this.git.getRemoteBranchesContaining(oldest);
+      if (published.length > 0) {
+        throw new Error(
+          `${oldest.substring(0, 7)} is already on ${published.join(
+            ", "
+          )}, rewording it would rewrite published history. Use --force to do it anyway`
+        );
+      }
+    }
+
+    const backup = await this.git.createBackupRef("reword");
+    const next = await this.git.rewriteMessages(
+      oldest,
+      new Map(rewordings.map((r) => [r.commit.hash, r.message]))
+    );
+    await this.git.updateHead(next, head, "fynn reword");
+    return backup;
+  }
+}
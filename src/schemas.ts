@@ -0,0 +1,97 @@
+import { z } from "zod";
+
+// Models occasionally answer optional fields with null or "", treat both as absent
+const optionalText = z
+  .string()
+  .nullish()
+  .transform((value) => (value && value.trim() ? value : undefined));
+
+// Test inputs and outputs are free-form, but the scenario table needs strings
+const looseText = z.preprocess(
+  (value) =>
+    typeof value === "string" ? value : JSON.stringify(value ?? null),
+  z.string()
+);
+
+export const commitSuggestionSchema = z.object({
+  type: z.string().trim().min(1),
+  scope: optionalText,
+  description: z.string().trim().min(1),
+  body: optionalText,
+  breaking: z.boolean().nullish().transform((value) => value ?? false),
+  breakingChange: optionalText,
+});
+
+export const commitPlanSchema = z.object({
+  commits: z
+    .array(
+      commitSuggestionSchema.extend({
+        files: z.array(z.string()).min(1, "every commit needs at least one file"),
+      })
+    )
+    .min(1),
+});
+
+export const codeReviewSchema = z.object({
+  overallScore: z.number().min(1).max(10).optional(),
+  issues: z
+    .array(
+      z.object({
+        severity: z.preprocess(
+          (value) => (typeof value === "string" ? value.toLowerCase() : value),
+          z.enum(["low", "medium", "high"])
+        ),
+        title: z.string(),
+        description: z.string(),
+        file: z.string(),
+        line: z.coerce.number().int().nonnegative().catch(0),
+        suggestion: optionalText,
+      })
+    )
+    .default([]),
+  suggestions: z
+    .array(
+      z.object({
+        title: z.string(),
+        description: z.string(),
+        example: optionalText,
+      })
+    )
+    .default([]),
+});
+
+export const duplicateCodeListSchema = z.array(
+  z.object({
+    pattern: z.string(),
+    similarity: z.coerce.number().min(0).max(100),
+    locations: z.array(
+      z.object({
+        file: z.string(),
+        line: z.coerce.number().int().nonnegative().catch(0),
+        commit: z.string(),
+      })
+    ),
+    suggestion: optionalText,
+  })
+);
+
+export const testSuiteSchema = z.object({
+  fileName: z.string(),
+  functionName: optionalText,
+  description: optionalText,
+  testCases: z
+    .array(
+      z.object({
+        scenario: z.string().min(1),
+        input: looseText,
+        expectedOutput: looseText,
+      })
+    )
+    .min(1, "at least one test case is required"),
+});
+
+export const pullRequestSchema = z.object({
+  title: z.string().trim().min(1),
+  summary: z.string().trim().min(1),
+  testing: z.array(z.string().trim().min(1)).default([]),
+});
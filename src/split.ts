@@ -0,0 +1,88 @@
+import { AIService } from "./ai";
+import { GitService } from "./git";
+import { createOfflineGenerator } from "./offline";
+import { SplitAbortedError } from "./errors";
+import type { CommitGroup, GitDiff, PlannedCommit } from "./Types/types";
+
+export class SplitService {
+  private git: GitService;
+
+  constructor() {
+    this.git = new GitService();
+  }
+
+  planOffline(diffs: GitDiff[]): CommitGroup[] {
+    const generator = createOfflineGenerator();
+    return generator.group(diffs).map((group) => ({
+      files: group.map((d) => d.file),
+      suggestion: generator.generate(group),
+    }));
+  }
+
+  async planWithAI(diffs: GitDiff[]): Promise<CommitGroup[]> {
+    return new AIService().planCommits(diffs);
+  }
+
+  /**
+   * Creates the planned commits one after another from the index as it is now. If any
+   * commit fails, HEAD and the index are put back exactly as they were before the first one.
+   */
+  async commit(
+    plan: PlannedCommit[],
+    diffs: GitDiff[],
+    onCommitted?: (commit: PlannedCommit, index: number) => void
+  ): Promise<void> {
+    const staged = diffs.map((d) => d.file);
+    const planned = plan.flatMap((commit) => commit.files);
+    const missing = staged.filter((file) => !planned.includes(file));
+    if (missing.length > 0) {
+      throw new Error(
+        `Every staged file must belong to a commit, missing: ${missing.join(
+          ", "
+        )}`
+      );
+    }
+
+    const snapshot = await this.git.snapshotIndex();
+    let committed = 0;
+
+    try {
+      for (const commit of plan) {
+        // A rename only stages cleanly together with the deletion of its old path
+        const paths = commit.files.flatMap((file) => {
+          const diff = diffs.find((d) => d.file === file);
+          return diff?.from ? [diff.from, file] : [file];
+        });
+        await this.git.stageFromSnapshot(paths, snapshot);
+        await this.git.commit(commit.message);
+        onCommitted?.(commit, committed);
+        committed++;
+      }
+    } catch (error) {
+      await this.git.restoreIndex(snapshot);
+      throw new SplitAbortedError(committed, plan.length, error);
+    }
+  }
+}
+
+export function mergeCommits(
+  plan: PlannedCommit[],
+  indexes: number[]
+): PlannedCommit[] {
+  const [target, ...rest] = [...indexes].sort((a, b) => a - b);
+  const files = [target, ...rest].flatMap((index) => plan[index].files);
+  return plan
+    .map((commit, index) => (index === target ? { ...commit, files } : commit))
+    .filter((_, index) => !rest.includes(index));
+}
+
+export function moveCommit(
+  plan: PlannedCommit[],
+  from: number,
+  to: number
+): PlannedCommit[] {
+  const result = [...plan];
+  const [moved] = result.splice(from, 1);
+  result.splice(to, 0, moved);
+  return result;
+}
@@ -0,0 +1,262 @@
+import { AIService, formatCommitFooters, formatCommitMessage } from "./ai";
+import { ConfigService } from "./config";
+import {
+  extractIssueReferences,
+  parseCommitMessage,
+  wrapBody,
+} from "./conventional";
+import { GitService } from "./git";
+import { createOfflineGenerator } from "./offline";
+import { applyTicket, getBranchTicket } from "./tickets";
+import type {
+  CommitInfo,
+  CommitSuggestion,
+  GitDiff,
+  ParsedCommit,
+} from "./Types/types";
+
+// Subjects that only record how the branch was worked on, not what it changes
+const NOISE_PATTERN =
+  /^(wip|fixup!|squash!|amend!|oops|tmp|temp|typos?|fix(ed)? typos?|lint|format(ting)?|update|changes|minor (changes|fixes)|address(ed)? (code )?review( comments| feedback)?|review (comments|feedback)|apply suggestions? from code review|merge (branch|remote-tracking branch))\b/i;
+// Types that describe a branch better than the others, in order
+const TYPE_PRIORITY = ["feat", "fix", "perf", "refactor"];
+const CO_AUTHOR_TOKEN = /^co-authored-by$/i;
+
+export interface SquashContext {
+  base: string;
+  branch: string;
+  mergeBase: string;
+  // Newest first, as git log lists them
+  commits: CommitInfo[];
+  diffs: GitDiff[];
+}
+
+function parse(commit: CommitInfo): ParsedCommit {
+  return parseCommitMessage(
+    commit.body ? `${commit.message}\n\n${commit.body}` : commit.message
+  );
+}
+
+export function isNoiseCommit(parsed: ParsedCommit): boolean {
+  return (
+    NOISE_PATTERN.test(parsed.header) ||
+    NOISE_PATTERN.test(parsed.description ?? "")
+  );
+}
+
+/**
+ * Folds the commits of a branch into one conventional commit. The subject and body come
+ * from the AI provider or from the meaningful commits, while breaking changes, issue
+ * references and co-authors are always carried over from the history.
+ */
+export class SquashService {
+  private git: GitService;
+  private config: ConfigService;
+
+  constructor() {
+    this.git = new GitService();
+    this.config = new ConfigService();
+  }
+
+  /** The commits and combined diff of HEAD since it forked from `base`. */
+  async collect(base?: string): Promise<SquashContext> {
+    const resolved = await this.git.resolveBaseBranch(
+      base ?? this.config.getConfig().baseBranch
+    );
+    const mergeBase = await this.git.getMergeBase(resolved, "HEAD");
+    const commits = await this.git.getCommitsInRange(`${mergeBase}..HEAD`);
+    if (commits.length === 0) {
+      throw new Error(`No commits since ${resolved}, nothing to squash`);
+    }
+
+    return {
+      base: resolved,
+      branch: await this.git.getCurrentBranch(),
+      mergeBase,
+      commits,
+      diffs: await this.git.getDiff({
+        kind: "range",
+        from: mergeBase,
+        to: "HEAD",
+      }),
+    };
+  }
+
+  async summarizeWithAI(context: SquashContext): Promise<CommitSuggestion> {
+    return new AIService().generateCommitMessage(
+      context.diffs,
+      context.commits
+    );
+  }
+
+  /**
+   * Picks the most significant type among the meaningful commits, keeps their scope when
+   * they agree on one, and lists them in the body. Falls back to the path heuristics.
+   */
+  summarizeOffline(context: SquashContext): CommitSuggestion {
+    const parsed = context.commits
+      .slice()
+      .reverse()
+      .map(parse)
+      .filter((commit) => !isNoiseCommit(commit));
+    const typed = parsed.filter((commit) => commit.type && commit.description);
+    const fallback = createOfflineGenerator().generate(context.diffs);
+    if (typed.length === 0) {
+      return fallback;
+    }
+
+    const types = typed.map((commit) => commit.type!);
+    const type =
+      TYPE_PRIORITY.find((candidate) => types.includes(candidate)) ??
+      types
+        .slice()
+        .sort(
+          (a, b) =>
+            types.filter((t) => t === b).length -
+            types.filter((t) => t === a).length
+        )[0];
+    const lead = typed.find((commit) => commit.type === type)!;
+    const scopes = new Set(typed.map((commit) => commit.scope).filter(Boolean));
+    const scope =
+      scopes.size === 1
+        ? Array.from(scopes)[0]
+        : scopes.size === 0
+        ? fallback.scope
+        : undefined;
+
+    const bullets = parsed
+      .filter((commit) => commit !== lead)
+      .map(
+        (commit) =>
+          `- ${commit.scope ? `${commit.scope}: ` : ""}${
+            commit.description ?? commit.header
+          }`
+      );
+    return {
+      type,
+      scope,
+      description: lead.description!,
+      body: bullets.length > 0 ? bullets.join("\n") : undefined,
+      breaking: parsed.some((commit) => commit.breaking),
+    };
+  }
+
+  /**
+   * The full message: the suggestion, then BREAKING CHANGE, issue, ticket and
+   * Co-authored-by footers.
+   */
+  async buildMessage(
+    context: SquashContext,
+    suggestion: CommitSuggestion
+  ): Promise<string> {
+    const history = context.commits.slice().reverse();
+    const parsed = history.map(parse);
+    const footers: string[] = [];
+    const tickets = this.config.getConfig().tickets;
+    const ticket = await getBranchTicket(this.git, tickets);
+    if (tickets && ticket) {
+      suggestion = applyTicket(suggestion, ticket, tickets);
+    }
+
+    const notes = new Set(parsed.flatMap((commit) => commit.breakingNotes));
+    // A `!` without a footer repeats the subject as its note, that says nothing new
+    parsed.forEach((commit) => {
+      if (
+        commit.breakingNotes.length === 1 &&
+        commit.breakingNotes[0] === commit.description
+      ) {
+        notes.delete(commit.description);
+      }
+    });
+    notes.forEach((note) => footers.push(`BREAKING CHANGE: ${note}`));
+
+    const references = new Map<string, string | undefined>();
+    parsed.flatMap(extractIssueReferences).forEach((reference) => {
+      if (!references.get(reference.id)) {
+        references.set(reference.id, reference.action);
+      }
+    });
+    references.forEach((action, id) => {
+      const keyword = action
+        ? action.charAt(0).toUpperCase() + action.slice(1)
+        : "Refs";
+      footers.push(`${keyword} #${id}`);
+    });
+    // The history's own notes win, the suggestion's note only fills in when it has none
+    const own = formatCommitFooters({
+      ...suggestion,
+      breaking: notes.size === 0 && Boolean(suggestion.breakingChange),
+    });
+    if (own) {
+      footers.push(own);
+    }
+
+    footers.push(...(await this.coAuthors(history, parsed)));
+
+    const header = formatCommitMessage({
+      ...suggestion,
+      breaking: suggestion.breaking || notes.size > 0,
+    });
+    return [
+      header,
+      suggestion.body && wrapBody(suggestion.body),
+      footers.join("\n"),
+    ]
+      .filter((part) => part && part.trim())
+      .join("\n\n");
+  }
+
+  /**
+   * Squashes the branch into one commit on top of its merge-base. HEAD is saved to a backup
+   * ref first, and restored when the commit fails, e.g. because a hook rejects it.
+   */
+  async apply(context: SquashContext, message: string): Promise<string> {
+    if ((await this.git.getStagedFiles()).length > 0) {
+      throw new Error(
+        "Commit or unstage the staged changes first, they would end up in the squashed commit"
+      );
+    }
+
+    const backup = await this.git.createBackupRef("squash");
+    await this.git.softReset(context.mergeBase);
+    try {
+      await this.git.commit(message);
+    } catch (error) {
+      await this.git.softReset(backup);
+      throw error;
+    }
+    return backup;
+  }
+
+  /** Every distinct author and existing co-author, except whoever makes the squashed commit. */
+  private async coAuthors(
+    history: CommitInfo[],
+    parsed: ParsedCommit[]
+  ): Promise<string[]> {
+    const committer = (
+      await this.git.getConfigValue("user.email")
+    )?.toLowerCase();
+    const people = new Map<string, string>();
+    const add = (identity: string, email: string) => {
+      const key = email.toLowerCase();
+      if (key !== committer && !people.has(key)) {
+        people.set(key, identity);
+      }
+    };
+
+    history.forEach((commit, index) => {
+      if (commit.email) {
+        add(`${commit.author} <${commit.email}>`, commit.email);
+      }
+      parsed[index].footers
+        .filter((footer) => CO_AUTHOR_TOKEN.test(footer.token))
+        .forEach((footer) => {
+          const email = /<([^>]+)>/.exec(footer.value)?.[1];
+          if (email) add(footer.value.trim(), email);
+        });
+    });
+    return Array.from(people.values()).map(
+      (identity) => `Co-authored-by: ${identity}`
+    );
+  }
+}
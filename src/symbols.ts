@@ -0,0 +1,548 @@
+import type * as TypeScript from "typescript";
+import { languageOf, type Language } from "./frameworks";
+import type { ChangedSymbol, GitDiff, SymbolSource } from "./Types/types";
+
+interface Declaration {
+  pattern: RegExp;
+  kind: ChangedSymbol["kind"];
+  // Whether a match is visible outside its file, from the match itself
+  exported: (match: RegExpExecArray) => boolean;
+}
+
+export interface DiffLine {
+  // Line in the new version of the file, for a removed line the one that took its place
+  line: number;
+  kind: "added" | "removed" | "context";
+  text: string;
+}
+
+export interface DiffHunk {
+  // Whatever git shows after the second @@, usually the enclosing declaration
+  context: string;
+  lines: DiffLine[];
+}
+
+// Words that look like a method call followed by a block
+const CONTROL_KEYWORDS = new Set([
+  "if",
+  "for",
+  "while",
+  "switch",
+  "catch",
+  "return",
+  "function",
+  "else",
+  "do",
+  "try",
+  "with",
+  "super",
+  "new",
+]);
+
+const always = () => true;
+const publicName = (index: number) => (match: RegExpExecArray) =>
+  !match[index].startsWith("_");
+
+const DECLARATIONS: Record<Language | "other", Declaration[]> = {
+  javascript: [
+    {
+      pattern:
+        /^\s*export\s+(?:default\s+)?(?:declare\s+)?(?:async\s+)?function\s*\*?\s*([\w$]+)/,
+      kind: "function",
+      exported: always,
+    },
+    {
+      pattern:
+        /^\s*export\s+(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?class\s+([\w$]+)/,
+      kind: "class",
+      exported: always,
+    },
+    {
+      pattern:
+        /^\s*export\s+(?:const|let|var)\s+([\w$]+)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|[\w$]+\s*=>)/,
+      kind: "function",
+      exported: always,
+    },
+    {
+      pattern: /^\s*(?:async\s+)?function\s*\*?\s*([\w$]+)/,
+      kind: "function",
+      exported: () => false,
+    },
+    {
+      pattern: /^\s*(?:abstract\s+)?class\s+([\w$]+)/,
+      kind: "class",
+      exported: () => false,
+    },
+    {
+      pattern:
+        /^\s*(?:const|let|var)\s+([\w$]+)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|[\w$]+\s*=>)/,
+      kind: "function",
+      exported: () => false,
+    },
+    {
+      pattern:
+        /^\s+((?:public|protected|private|static|readonly|async|override|get|set)\s+)*\*?([\w$]+)\s*(?:<[^>]*>)?\((?:[^)]*\)\s*(?::[^{]+)?\{|[^)]*)\s*$/,
+      kind: "method",
+      exported: (match) => !/\b(private|protected)\b/.test(match[1] ?? ""),
+    },
+  ],
+  python: [
+    {
+      pattern: /^(\s*)(?:async\s+)?def\s+(\w+)/,
+      kind: "function",
+      exported: publicName(2),
+    },
+    { pattern: /^(\s*)class\s+(\w+)/, kind: "class", exported: publicName(2) },
+  ],
+  go: [
+    {
+      pattern: /^func\s+(\([^)]*\)\s*)?(\w+)/,
+      kind: "function",
+      exported: (match) => /^[A-Z]/.test(match[2]),
+    },
+  ],
+  rust: [
+    {
+      pattern:
+        /^\s*(pub(?:\([^)]*\))?\s+)?(?:const\s+)?(?:async\s+)?(?:unsafe\s+)?(?:extern\s+"[^"]*"\s+)?fn\s+(\w+)/,
+      kind: "function",
+      exported: (match) => Boolean(match[1]),
+    },
+  ],
+  other: [
+    { pattern: /^\s*(?:\w+\s+)*function\s+(\w+)/, kind: "function", exported: always },
+    {
+      pattern: /^\s*(?:(?:public|abstract|final)\s+)*class\s+(\w+)/,
+      kind: "class",
+      exported: always,
+    },
+    {
+      pattern:
+        /^\s*(?:(?:public|protected|private|static|final|virtual|inline|const|unsigned|struct)\s+)*[\w:<>,\[\]*&]+[\s*&]+(\w+)\s*\([^;]*$/,
+      kind: "function",
+      exported: (match) => !/^\s*(private|static)\b/.test(match.input),
+    },
+  ],
+};
+
+/** The function, method or class a line declares, or null. */
+export function matchDeclaration(
+  text: string,
+  language: Language | null
+): Omit<ChangedSymbol, "line" | "added"> | null {
+  for (const declaration of DECLARATIONS[language ?? "other"]) {
+    const match = declaration.pattern.exec(text);
+    if (!match) continue;
+    const name = match[match.length - 1] ?? match[1];
+    if (!name || CONTROL_KEYWORDS.has(name)) continue;
+    // An indented Python def is a method of the class around it
+    const kind =
+      language === "python" && declaration.kind === "function" && match[1]
+        ? "method"
+        : declaration.kind;
+    return { name, kind, exported: declaration.exported(match) };
+  }
+  return null;
+}
+
+/** The hunks of a unified diff, with every line numbered as in the new version of the file. */
+export function parseHunks(changes: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let newLine = 0;
+
+  for (const text of changes.split("\n")) {
+    const header = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@ ?(.*)$/.exec(text);
+    if (header) {
+      newLine = Number(header[1]);
+      current = { context: header[2], lines: [] };
+      hunks.push(current);
+      continue;
+    }
+    if (!current || text.startsWith("\\")) continue;
+
+    if (text.startsWith("+")) {
+      current.lines.push({ line: newLine++, kind: "added", text: text.slice(1) });
+    } else if (text.startsWith("-")) {
+      current.lines.push({ line: newLine, kind: "removed", text: text.slice(1) });
+    } else if (text.startsWith(" ")) {
+      current.lines.push({ line: newLine++, kind: "context", text: text.slice(1) });
+    }
+  }
+  return hunks;
+}
+
+// Longest block the heuristics follow before giving up on finding its end
+const MAX_BLOCK_LINES = 400;
+
+/** Lines the diff adds, numbered as in the new version of the file. */
+export function addedLines(changes: string): number[] {
+  return parseHunks(changes).flatMap((hunk) =>
+    hunk.lines.filter((line) => line.kind === "added").map((line) => line.line)
+  );
+}
+
+/**
+ * The functions, methods and classes a diff declares or changes, from the lines around
+ * each change. A change belongs to the closest declaration above it in the hunk, or to the
+ * one git names in the hunk header. Symbols that only the old version had are left out.
+ */
+export function changedSymbols(diff: GitDiff): ChangedSymbol[] {
+  const language = languageOf(diff.file);
+  const braces = language !== "python";
+  const symbols = new Map<string, ChangedSymbol>();
+  const removed = new Set<string>();
+
+  for (const hunk of parseHunks(diff.changes)) {
+    const fromHeader = matchDeclaration(hunk.context, language);
+    // The header's declaration starts above the hunk, its first change stands in for it
+    let current: ChangedSymbol | null = fromHeader
+      ? { ...fromHeader, line: 0, added: false }
+      : null;
+    const record = (line: DiffLine) => {
+      if (!current) return;
+      const symbol = symbols.get(current.name) ?? current;
+      symbol.line ||= line.line;
+      symbols.set(symbol.name, symbol);
+    };
+
+    for (const line of hunk.lines) {
+      const declared = matchDeclaration(line.text, language);
+      if (line.kind === "removed") {
+        if (declared) {
+          removed.add(declared.name);
+          current = null;
+        } else {
+          record(line);
+        }
+        continue;
+      }
+
+      if (declared) {
+        current = { ...declared, line: line.line, added: line.kind === "added" };
+      } else if (
+        line.text.trim() &&
+        (braces ? /^[})\]]/.test(line.text) : /^[^\s#@]/.test(line.text))
+      ) {
+        // Back at the top level, this line still closes the declaration
+        if (braces && line.kind === "added") record(line);
+        current = null;
+        continue;
+      }
+      if (line.kind === "added") record(line);
+    }
+  }
+
+  // A declaration that moved or changed its signature is changed, not new
+  symbols.forEach((symbol) => {
+    if (removed.has(symbol.name)) symbol.added = false;
+  });
+  return Array.from(symbols.values()).sort((a, b) => a.line - b.line);
+}
+
+/**
+ * The changed symbols with their code, read from `content`, the new version of the file.
+ * TypeScript and JavaScript are parsed with the compiler, so every function, class and
+ * method is found exactly. Other languages go by the declarations around each change, and
+ * a symbol's code ends where its block does.
+ */
+export async function findChangedSymbols(
+  diff: GitDiff,
+  content: string
+): Promise<SymbolSource[]> {
+  const language = languageOf(diff.file);
+  return language === "javascript"
+    ? parseScriptSymbols(diff, content)
+    : blockSymbols(diff, content, language);
+}
+
+async function parseScriptSymbols(
+  diff: GitDiff,
+  content: string
+): Promise<SymbolSource[]> {
+  // The compiler is big, only load it when there is a script to parse
+  const ts = (await import("typescript")).default;
+  const lines = parseHunks(diff.changes).flatMap((hunk) => hunk.lines);
+  const changed = new Set(
+    lines.filter((line) => line.kind !== "context").map((line) => line.line)
+  );
+  const added = new Set(
+    lines.filter((line) => line.kind === "added").map((line) => line.line)
+  );
+  const source = ts.createSourceFile(
+    diff.file,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    scriptKind(ts, diff.file)
+  );
+  const lineOf = (position: number) =>
+    source.getLineAndCharacterOfPosition(position).line + 1;
+  const span = (node: TypeScript.Node) => ({
+    start: lineOf(node.getStart(source)),
+    end: lineOf(node.getEnd()),
+  });
+  const touched = (node: TypeScript.Node) => {
+    const { start, end } = span(node);
+    return Array.from(changed).some((line) => line >= start && line <= end);
+  };
+  const hasModifier = (node: TypeScript.Node, kind: TypeScript.SyntaxKind) =>
+    ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node) ?? []).some((modifier) => modifier.kind === kind);
+
+  // Names exported apart from their declaration, `export { a }`, `export default a` and
+  // `module.exports = { a }`
+  const exportedNames = new Set<string>();
+  source.statements.forEach((statement) => {
+    if (
+      ts.isExportDeclaration(statement) &&
+      !statement.moduleSpecifier &&
+      statement.exportClause &&
+      ts.isNamedExports(statement.exportClause)
+    ) {
+      statement.exportClause.elements.forEach((element) =>
+        exportedNames.add((element.propertyName ?? element.name).text)
+      );
+    } else if (
+      ts.isExportAssignment(statement) &&
+      ts.isIdentifier(statement.expression)
+    ) {
+      exportedNames.add(statement.expression.text);
+    } else if (
+      ts.isExpressionStatement(statement) &&
+      ts.isBinaryExpression(statement.expression) &&
+      statement.expression.left.getText(source) === "module.exports" &&
+      ts.isObjectLiteralExpression(statement.expression.right)
+    ) {
+      statement.expression.right.properties.forEach((property) => {
+        if (ts.isShorthandPropertyAssignment(property)) {
+          exportedNames.add(property.name.text);
+        } else if (
+          ts.isPropertyAssignment(property) &&
+          ts.isIdentifier(property.initializer)
+        ) {
+          exportedNames.add(property.initializer.text);
+        }
+      });
+    }
+  });
+  const isExported = (node: TypeScript.Node, name: string) =>
+    hasModifier(node, ts.SyntaxKind.ExportKeyword) || exportedNames.has(name);
+
+  const symbols: SymbolSource[] = [];
+  const add = (
+    node: TypeScript.Node,
+    symbol: Pick<SymbolSource, "name" | "kind" | "exported" | "parent">,
+    // Where the body starts, the signature is everything before it
+    body?: TypeScript.Node
+  ) => {
+    const { start, end } = span(node);
+    const text = node.getText(source);
+    const signature = body
+      ? content.slice(node.getStart(source), body.getStart(source))
+      : text.slice(0, text.indexOf("{") === -1 ? undefined : text.indexOf("{"));
+    let whole = true;
+    for (let line = start; line <= end && whole; line++) {
+      whole = added.has(line);
+    }
+    symbols.push({
+      ...symbol,
+      line: start,
+      added: whole,
+      signature: signature.replace(/\s+/g, " ").replace(/\s*(=>|\{)?\s*$/, ""),
+      // With its doc comment, which often says what the tests should expect
+      code: content.slice(node.getStart(source, true), node.getEnd()),
+    });
+  };
+
+  for (const statement of source.statements) {
+    if (!touched(statement)) continue;
+
+    if (ts.isFunctionDeclaration(statement) && statement.body) {
+      const name = statement.name?.text ?? "default";
+      add(
+        statement,
+        { name, kind: "function", exported: isExported(statement, name) },
+        statement.body
+      );
+    } else if (ts.isClassDeclaration(statement)) {
+      const name = statement.name?.text ?? "default";
+      const exported = isExported(statement, name);
+      const members = statement.members.filter(touched);
+      members.forEach((member) => {
+        const memberName =
+          ts.isConstructorDeclaration(member)
+            ? "constructor"
+            : member.name && !ts.isComputedPropertyName(member.name)
+            ? member.name.getText(source)
+            : null;
+        const body =
+          ts.isMethodDeclaration(member) ||
+          ts.isConstructorDeclaration(member) ||
+          ts.isGetAccessorDeclaration(member) ||
+          ts.isSetAccessorDeclaration(member)
+            ? member.body
+            : ts.isPropertyDeclaration(member) &&
+              member.initializer &&
+              (ts.isArrowFunction(member.initializer) ||
+                ts.isFunctionExpression(member.initializer))
+            ? member.initializer.body
+            : undefined;
+        if (!memberName || !body) return;
+        add(
+          member,
+          {
+            name: memberName,
+            kind: "method",
+            exported:
+              exported &&
+              !memberName.startsWith("#") &&
+              !hasModifier(member, ts.SyntaxKind.PrivateKeyword) &&
+              !hasModifier(member, ts.SyntaxKind.ProtectedKeyword),
+            parent: name,
+          },
+          body
+        );
+      });
+      // Fields, decorators or the heritage clause changed, the class is the unit to test
+      if (!symbols.some((symbol) => symbol.parent === name)) {
+        add(statement, { name, kind: "class", exported });
+      }
+    } else if (ts.isVariableStatement(statement)) {
+      const declarations = statement.declarationList.declarations;
+      declarations.forEach((declaration) => {
+        const initializer = declaration.initializer;
+        if (
+          !ts.isIdentifier(declaration.name) ||
+          !initializer ||
+          !(
+            ts.isArrowFunction(initializer) ||
+            ts.isFunctionExpression(initializer)
+          ) ||
+          !touched(declaration)
+        ) {
+          return;
+        }
+        const name = declaration.name.text;
+        add(
+          declarations.length === 1 ? statement : declaration,
+          {
+            name,
+            kind: "function",
+            exported: isExported(statement, name),
+          },
+          initializer.body
+        );
+      });
+    }
+  }
+  return symbols;
+}
+
+function scriptKind(
+  ts: typeof TypeScript,
+  file: string
+): TypeScript.ScriptKind {
+  if (/\.tsx$/.test(file)) return ts.ScriptKind.TSX;
+  if (/\.jsx$/.test(file)) return ts.ScriptKind.JSX;
+  if (/\.[cm]?js$/.test(file)) return ts.ScriptKind.JS;
+  return ts.ScriptKind.TS;
+}
+
+/** Where the block declared on line `start` ends, by indentation for Python and by braces otherwise. */
+function blockEnd(
+  lines: string[],
+  start: number,
+  language: Language | null
+): number {
+  const limit = Math.min(lines.length - 1, start + MAX_BLOCK_LINES);
+  if (language === "python") {
+    const indent = /^\s*/.exec(lines[start])![0].length;
+    let end = start;
+    // The signature can span lines, the body starts after its colon
+    while (end < limit && !/:\s*(#.*)?$/.test(lines[end])) end++;
+    for (let index = end + 1; index <= limit; index++) {
+      if (!lines[index].trim()) continue;
+      if (/^\s*/.exec(lines[index])![0].length <= indent) break;
+      end = index;
+    }
+    return end;
+  }
+
+  let depth = 0;
+  let opened = false;
+  for (let index = start; index <= limit; index++) {
+    // Braces in strings and comments are rare enough in signatures and bodies to ignore
+    for (const char of lines[index].replace(/\/\/.*$/, "")) {
+      if (char === "{") {
+        depth++;
+        opened = true;
+      } else if (char === "}") {
+        depth--;
+      }
+    }
+    if (opened && depth <= 0) return index;
+    // A declaration without a body, such as a prototype or a trait method
+    if (!opened && /;\s*$/.test(lines[index])) return index;
+  }
+  return limit;
+}
+
+function blockSymbols(
+  diff: GitDiff,
+  content: string,
+  language: Language | null
+): SymbolSource[] {
+  const lines = content.split("\n");
+  const seen = new Set<number>();
+  return changedSymbols(diff).flatMap((symbol): SymbolSource[] => {
+    // The recorded line is the declaration's, or the first change when it was above the
+    // hunk. The closest declaration whose block reaches it is the innermost one around it.
+    const changed = Math.min(symbol.line, lines.length) - 1;
+    let start = changed;
+    let declared: ReturnType<typeof matchDeclaration> = null;
+    let end = -1;
+    for (; start >= 0; start--) {
+      declared = matchDeclaration(lines[start], language);
+      if (!declared) continue;
+      end = blockEnd(lines, start, language);
+      if (end >= changed) break;
+    }
+    if (start < 0 || !declared || seen.has(start)) return [];
+    seen.add(start);
+
+    const header = lines.slice(start, end + 1).join("\n");
+    const colon = header.search(/:\s*(#.*)?$/m);
+    const signature = (
+      language === "python"
+        ? colon === -1
+          ? lines[start]
+          : header.slice(0, colon + 1)
+        : header.split("{")[0]
+    )
+      .replace(/\s+/g, " ")
+      .trim();
+    const indent = /^\s*/.exec(lines[start])![0].length;
+    let parent: string | undefined;
+    if (language === "python" && indent > 0) {
+      for (let index = start - 1; index >= 0; index--) {
+        const owner = /^(\s*)class\s+(\w+)/.exec(lines[index]);
+        if (owner && owner[1].length < indent) {
+          parent = owner[2];
+          break;
+        }
+      }
+    }
+    return [
+      {
+        ...declared,
+        kind: parent && declared.kind === "function" ? "method" : declared.kind,
+        line: start + 1,
+        added: symbol.added,
+        signature,
+        code: lines.slice(start, end + 1).join("\n"),
+        parent,
+      },
+    ];
+  });
+}
@@ -1,9 +1,83 @@
 import { AIService } from "./ai";
-import { GitService } from "./git";
-import type { TestSuite, CommitInfo } from "./Types/types";
+import { ConfigService } from "./config";
+import { GitService, LATEST_COMMIT } from "./git";
+import { countTests, detectTestFramework, planTestFile } from "./frameworks";
+import { DEFAULT_TEST_TIMEOUT, TestSandbox, type TestRun } from "./verify";
+import { findChangedSymbols } from "./symbols";
+import type {
+  TestSuite,
+  DiffSpec,
+  GitDiff,
+  GeneratedTestFile,
+  SymbolSource,
+  TestFileRequest,
+  TestVerification,
+} from "./Types/types";
+import { SecretFileBlockedError, StructuredOutputError } from "./errors";
+import { existsSync } from "fs";
 import fs from "fs/promises";
 import path from "path";
 
+// Rounds of fixing after the first failing run, before the file is dropped
+const MAX_FIX_ATTEMPTS = 3;
+// Each symbol is one request for scenarios, so a file that changes many gets its main ones
+const MAX_SYMBOLS_PER_FILE = 6;
+// Characters of a symbol's code in the scenario prompt
+const MAX_SYMBOL_SOURCE = 12000;
+// The line of a test run's output that says best why it failed
+const FAILURE_LINE =
+  /^\s*(●|FAIL\b|✖|not ok\b|AssertionError|\w*Error\b|E\s+\w+|--- FAIL|panicked at|error(\[E\d+\])?:)/m;
+
+function describeFailure(run: TestRun, timeout: number): string {
+  if (run.timedOut) return `still running after ${timeout}s`;
+  const line = FAILURE_LINE.exec(run.output)?.[0] ?? "";
+  const detail =
+    run.output.slice(run.output.indexOf(line)).split("\n")[0].trim() ||
+    run.output.trim().split("\n").pop() ||
+    "the tests failed";
+  return detail.length > 160 ? `${detail.slice(0, 157)}...` : detail;
+}
+
+/** Whether a changed file is source code that tests can be written for, rather than a test itself. */
+export function shouldGenerateTestsForFile(fileName: string): boolean {
+  const testableExtensions = [
+    ".js",
+    ".jsx",
+    ".mjs",
+    ".cjs",
+    ".ts",
+    ".tsx",
+    ".py",
+    ".java",
+    ".cpp",
+    ".c",
+    ".go",
+    ".rs",
+    ".php",
+  ];
+  const excludePatterns = [
+    "/test/",
+    "/tests/",
+    "/__tests__/",
+    ".test.",
+    ".spec.",
+    "_test.",
+    "/test_",
+    "/node_modules/",
+    "/dist/",
+    "/build/",
+  ];
+  const hasTestableExtension = testableExtensions.some((ext) =>
+    fileName.endsWith(ext)
+  );
+  if (!hasTestableExtension) return false;
+  // Patterns start with a slash, so a leading one lets them match top-level directories too
+  const isExcluded = excludePatterns.some((pattern) =>
+    `/${fileName}`.includes(pattern)
+  );
+  return !isExcluded;
+}
+
 export class TestService {
   private ai: AIService;
   private git: GitService;
@@ -13,66 +87,168 @@ export class TestService {
     this.git = new GitService();
   }
 
-  async generateTestsForCommit(): Promise<{
+  /**
+   * Writes runnable tests for the source files changed by `spec`, in the framework each
+   * file's project uses. Test files that already exist are updated instead of duplicated.
+   * With `verify`, each file is first run in a sandbox and fixed from its failures, and
+   * only files that pass are written.
+   */
+  async generateTestsForCommit(
+    spec: DiffSpec = LATEST_COMMIT,
+    options: { verify?: boolean } = {}
+  ): Promise<{
     success: boolean;
     message: string;
-    location?: string;
+    files?: GeneratedTestFile[];
+    // Changed source files without tests, with the reason
+    skipped?: string[];
   }> {
     try {
       const hasCommits = await this.git.hasCommits();
-      if (!hasCommits) {
+      // Staged and working tree changes can be tested before the first commit
+      if (!hasCommits && (spec.kind === "commit" || spec.kind === "range")) {
         return {
           success: false,
           message:
             "No commits found. Please commit your changes first to generate tests.",
         };
       }
-      const latestCommitDiff = await this.git.getLatestCommitDiff();
-      if (!latestCommitDiff || latestCommitDiff.length === 0) {
+      if (!hasCommits && options.verify) {
+        return {
+          success: false,
+          message:
+            "No commits found. The sandbox for --verify is a checkout, commit something first.",
+        };
+      }
+      const diffs = await this.git.getDiff(spec);
+      const target = await this.git.describeDiff(spec);
+      if (diffs.length === 0) {
         return {
           success: false,
-          message: "No changes found in the latest commit.",
+          message: `No changes found in the ${target.label}.`,
         };
       }
-      const commitInfo = await this.git.getLatestCommitInfo();
-      const testSuites: TestSuite[] = [];
-
-      for (const diff of latestCommitDiff) {
-        if (this.shouldGenerateTestsForFile(diff.file)) {
-          const testSuite = await this.generateTestSuiteForFile(diff);
-          if (testSuite) {
-            testSuites.push(testSuite);
+
+      const root = await this.git.getRepositoryRoot();
+      const trackedFiles = await this.git.getTrackedFiles();
+      const config = new ConfigService().getConfig();
+      const configured = config.testFramework;
+      const timeout = config.testTimeout ?? DEFAULT_TEST_TIMEOUT;
+      const files: GeneratedTestFile[] = [];
+      const skipped: string[] = [];
+      let sandbox: TestSandbox | null = null;
+
+      try {
+        for (const diff of diffs) {
+          if (!shouldGenerateTestsForFile(diff.file)) continue;
+          // Tests run against the working tree, so that is the source they are written for
+          const sourcePath = path.join(root, diff.file);
+          if (diff.status === "deleted" || !existsSync(sourcePath)) continue;
+
+          const framework = detectTestFramework(root, diff.file, configured);
+          if (!framework) {
+            skipped.push(`${diff.file}: no supported test framework found`);
+            continue;
+          }
+          const testSuites = await this.generateTestSuites(spec, diff);
+          if (testSuites.length === 0) {
+            skipped.push(`${diff.file}: no test scenarios could be generated`);
+            continue;
+          }
+
+          const testFile = planTestFile(
+            root,
+            diff.file,
+            framework,
+            trackedFiles
+          );
+          const testPath = path.join(root, testFile.testFile);
+          try {
+            const request: TestFileRequest = {
+              target: testFile,
+              suites: testSuites,
+              diff,
+              source: await fs.readFile(sourcePath, "utf8"),
+              existing: testFile.exists
+                ? await fs.readFile(testPath, "utf8")
+                : undefined,
+            };
+            let content = await this.ai.writeTestFile(request);
+            let verification: TestVerification | undefined;
+            if (options.verify) {
+              sandbox ??= await TestSandbox.create(this.git);
+              sandbox.linkDependencies(root, framework.root);
+              const result = await this.verifyTestFile(
+                sandbox,
+                request,
+                content,
+                timeout
+              );
+              content = result.content;
+              verification = result.verification;
+            }
+
+            if (!verification || verification.passed) {
+              await fs.mkdir(path.dirname(testPath), { recursive: true });
+              await fs.writeFile(testPath, content, "utf8");
+            }
+            files.push({
+              source: diff.file,
+              testFile: testFile.testFile,
+              framework: framework.name,
+              updated: testFile.exists,
+              verification,
+            });
+          } catch (error) {
+            if (error instanceof SecretFileBlockedError) throw error;
+            skipped.push(
+              `${diff.file}: ${
+                error instanceof Error
+                  ? error.message
+                  : "test file generation failed"
+              }`
+            );
           }
         }
+      } finally {
+        await sandbox?.dispose();
       }
 
-      if (testSuites.length === 0) {
+      if (files.length === 0) {
         return {
           success: false,
-          message: "No testable code changes found in the latest commit.",
+          message:
+            skipped.length > 0
+              ? `No test files could be generated for the ${target.label}.`
+              : `No testable code changes found in the ${target.label}.`,
+          skipped,
         };
       }
-      const testDir = await this.createTestDirectory();
-      const savedFiles: string[] = [];
-
-      for (const testSuite of testSuites) {
-        const testFileName = this.generateTestFileName(
-          testSuite.fileName,
-          commitInfo.hash
-        );
-        const testFilePath = path.join(testDir, testFileName);
-        const testContent = this.generateTestFileContent(testSuite, commitInfo);
-
-        await fs.writeFile(testFilePath, testContent, "utf8");
-        savedFiles.push(testFileName);
+
+      const written = files.filter(
+        (file) => !file.verification || file.verification.passed
+      ).length;
+      if (written === 0) {
+        return {
+          success: false,
+          message: "None of the generated test files passed, nothing was written.",
+          files,
+          skipped,
+        };
       }
 
       return {
         success: true,
-        message: `Generated ${testSuites.length} test file(s) for commit: ${commitInfo.message}`,
-        location: `Test/${savedFiles.join(", ")}`,
+        message: `Generated ${written} test file(s) for ${
+          target.commits.length === 1
+            ? `commit: ${target.commits[0].message}`
+            : target.label
+        }`,
+        files,
+        skipped,
       };
     } catch (error) {
+      if (error instanceof SecretFileBlockedError) throw error;
       return {
         success: false,
         message: `Failed to generate tests: ${
@@ -82,38 +258,152 @@ export class TestService {
     }
   }
 
-  private shouldGenerateTestsForFile(fileName: string): boolean {
-    const testableExtensions = [
-      ".js",
-      ".ts",
-      ".py",
-      ".java",
-      ".cpp",
-      ".c",
-      ".go",
-      ".rs",
-      ".php",
-    ];
-    const excludePatterns = [
-      "/test/",
-      "/tests/",
-      ".test.",
-      ".spec.",
-      "/node_modules/",
-      "/dist/",
-      "/build/",
-    ];
-    const hasTestableExtension = testableExtensions.some((ext) =>
-      fileName.endsWith(ext)
-    );
-    if (!hasTestableExtension) return false;
-    const isExcluded = excludePatterns.some((pattern) =>
-      fileName.includes(pattern)
+  /**
+   * Runs a test file in the sandbox and hands its failures back to the AI until it passes
+   * or the attempts run out. A file that never passes is taken out of the sandbox again,
+   * so it cannot break the runs of the files after it.
+   */
+  private async verifyTestFile(
+    sandbox: TestSandbox,
+    request: TestFileRequest,
+    content: string,
+    timeout: number
+  ): Promise<{ content: string; verification: TestVerification }> {
+    const { target } = request;
+    const verification: TestVerification = {
+      passed: false,
+      attempts: 0,
+      dropped: [],
+    };
+
+    for (;;) {
+      sandbox.write(target.testFile, content);
+      const run = await sandbox.run(target, timeout * 1000);
+      verification.attempts++;
+      if (run.passed) {
+        verification.passed = true;
+        verification.tests = countTests(content, target.framework.name);
+        return { content, verification };
+      }
+
+      verification.failure = describeFailure(run, timeout);
+      if (verification.attempts > MAX_FIX_ATTEMPTS) break;
+      try {
+        const fixed = await this.ai.fixTestFile(request, content, run.output);
+        content = fixed.content;
+        verification.dropped.push(...fixed.dropped);
+      } catch (error) {
+        if (error instanceof SecretFileBlockedError) throw error;
+        verification.failure = `could not be fixed: ${
+          error instanceof Error ? error.message : "unknown error"
+        }`;
+        break;
+      }
+    }
+
+    sandbox.restore(target.testFile, request.existing);
+    return { content, verification };
+  }
+
+  /**
+   * One suite per function, method or class the diff touches, written from the symbol's
+   * full code rather than the diff. Exported symbols come first, since tests can call them;
+   * a file without recognizable symbols gets one suite from its diff.
+   */
+  private async generateTestSuites(
+    spec: DiffSpec,
+    diff: GitDiff
+  ): Promise<TestSuite[]> {
+    const content = await this.git.getFileContent(spec, diff.file);
+    const symbols = content ? await findChangedSymbols(diff, content) : [];
+    const exported = symbols.filter((symbol) => symbol.exported);
+    const targets = (exported.length > 0 ? exported : symbols).slice(
+      0,
+      MAX_SYMBOLS_PER_FILE
     );
-    return !isExcluded;
+
+    const suites: TestSuite[] = [];
+    for (const symbol of targets) {
+      const suite = await this.generateTestSuiteForSymbol(diff.file, symbol);
+      if (suite) suites.push(suite);
+    }
+    if (suites.length > 0) return suites;
+
+    const fallback = await this.generateTestSuiteForFile(diff);
+    return fallback ? [fallback] : [];
+  }
+
+  private async generateTestSuiteForSymbol(
+    file: string,
+    symbol: SymbolSource
+  ): Promise<TestSuite | null> {
+    const label = symbol.parent
+      ? `${symbol.kind} ${symbol.parent}.${symbol.name}`
+      : `${symbol.kind} ${symbol.name}`;
+    const code =
+      symbol.code.length > MAX_SYMBOL_SOURCE
+        ? `${symbol.code.slice(0, MAX_SYMBOL_SOURCE)}\n... (truncated)`
+        : symbol.code;
+
+    try {
+      const prompt = `
+You are a test case generator. Generate test scenarios for the ${label} in ${file}, which a change ${
+        symbol.added ? "added" : "modified"
+      }.
+
+Signature: ${symbol.signature}
+${
+  symbol.exported
+    ? ""
+    : "It is not exported, so the scenarios have to reach it through the code that calls it.\n"
+}
+Current source:
+\`\`\`
+${code}
+\`\`\`
+
+Generate 3-5 test scenarios for this ${symbol.kind} covering:
+1. Basic functionality tests
+2. Edge cases and boundary conditions
+3. Error handling scenarios
+4. Different input variations
+
+IMPORTANT: Respond ONLY with a valid JSON object in this exact format:
+{
+  "fileName": "${file}",
+  "functionName": "${symbol.name}",
+  "testCases": [
+    {
+      "scenario": "Test basic functionality with valid input",
+      "input": "sample input value",
+      "expectedOutput": "expected result"
+    }
+  ]
+}
+
+Do not include any explanation, only return the JSON object. Must have at least 3 test cases.
+`;
+
+      const suite = await this.ai.generateTestSuite(prompt);
+      return {
+        ...suite,
+        functionName: symbol.parent
+          ? `${symbol.parent}.${symbol.name}`
+          : symbol.name,
+        signature: symbol.signature,
+      };
+    } catch (error) {
+      console.error(
+        `Failed to generate tests for ${label}:`,
+        error instanceof StructuredOutputError ? error.message : error
+      );
+      return null;
+    }
   }
 
-  private async generateTestSuiteForFile(diff: any): Promise<TestSuite | null> {
+  private async generateTestSuiteForFile(
+    diff: GitDiff
+  ): Promise<TestSuite | null> {
     try {
       const prompt = `
 You are a test case generator. Analyze the following code changes and generate test scenarios.
@@ -154,140 +444,13 @@ IMPORTANT: Respond ONLY with a valid JSON object in this exact format:
 Do not include any explanation, only return the JSON object. Must have at least 3 test cases.
 `;
 
-      const response = await this.ai.generateTestCases(prompt);
-
-      // Clean up Python-style values that AI might return
-      const cleanedResponse = response
-        .replace(/\bNone\b/g, "null")
-        .replace(/\bTrue\b/g, "true")
-        .replace(/\bFalse\b/g, "false");
-
-      const testSuite = JSON.parse(cleanedResponse) as TestSuite;
-
-      // Validate the response has test cases
-      if (
-        !testSuite.testCases ||
-        !Array.isArray(testSuite.testCases) ||
-        testSuite.testCases.length === 0
-      ) {
-        console.error(`AI returned empty test cases for ${diff.file}`);
-        return null;
-      }
-
-      return testSuite;
+      return await this.ai.generateTestSuite(prompt);
     } catch (error) {
-      console.error(`Failed to generate tests for ${diff.file}:`, error);
+      console.error(
+        `Failed to generate tests for ${diff.file}:`,
+        error instanceof StructuredOutputError ? error.message : error
+      );
       return null;
     }
   }
-
-  private async createTestDirectory(): Promise<string> {
-    const testDir = path.join(process.cwd(), "Test");
-
-    try {
-      await fs.access(testDir);
-    } catch {
-      await fs.mkdir(testDir, { recursive: true });
-    }
-
-    return testDir;
-  }
-
-  private generateTestFileName(
-    originalFile: string,
-    commitHash: string
-  ): string {
-    if (!originalFile || typeof originalFile !== "string") {
-      return `test_${commitHash.substring(0, 7)}.txt`;
-    }
-
-    const baseName = path.basename(originalFile, path.extname(originalFile));
-    const shortHash = commitHash.substring(0, 7);
-
-    return `${baseName}_test_${shortHash}.txt`;
-  }
-
-  private getTestFileExtension(originalFile: string): string {
-    const ext = path.extname(originalFile);
-
-    switch (ext) {
-      case ".py":
-        return ".py";
-      case ".js":
-      case ".ts":
-        return ".test.js";
-      case ".java":
-        return ".java";
-      case ".cpp":
-      case ".c":
-        return ".cpp";
-      case ".go":
-        return "_test.go";
-      case ".rs":
-        return ".rs";
-      case ".php":
-        return ".php";
-      default:
-        return ".test.txt";
-    }
-  }
-
-  private generateTestFileContent(
-    testSuite: TestSuite,
-    commitInfo: CommitInfo
-  ): string {
-    let content = `TEST SCENARIOS FOR: ${
-      testSuite.fileName || "Unknown File"
-    }\n`;
-    content += `=`.repeat(50) + `\n\n`;
-    content += `Commit: ${commitInfo.hash}\n`;
-    content += `Message: ${commitInfo.message}\n`;
-    content += `Generated: ${new Date().toISOString()}\n`;
-    content += `Function/Feature: ${
-      testSuite.functionName || "Main functionality"
-    }\n\n`;
-    const testCases = Array.isArray(testSuite.testCases)
-      ? testSuite.testCases
-      : [];
-
-    if (testCases.length === 0) {
-      content += `No test cases generated.\n`;
-      return content;
-    }
-
-    content += `TEST CASES:\n`;
-    content += `=`.repeat(50) + `\n\n`;
-    content += `| Test Scenario                    | Input                           | Expected Output                 |\n`;
-    content += `|----------------------------------|----------------------------------|----------------------------------|\n`;
-    testCases.forEach((testCase, index) => {
-      const scenario = this.truncateText(
-        testCase.scenario || `Test ${index + 1}`,
-        30
-      );
-      const input = this.truncateText(String(testCase.input || ""), 30);
-      const output = this.truncateText(
-        String(testCase.expectedOutput || ""),
-        30
-      );
-
-      content += `| ${scenario.padEnd(32)} | ${input.padEnd(
-        32
-      )} | ${output.padEnd(32)} |\n`;
-    });
-
-    content += `\n\nDETAILED TEST DESCRIPTIONS:\n`;
-    content += `=`.repeat(50) + `\n\n`;
-    testCases.forEach((testCase, index) => {
-      content += `${index + 1}. ${testCase.scenario || `Test ${index + 1}`}\n`;
-      content += `   Input: ${testCase.input || "N/A"}\n`;
-      content += `   Expected: ${testCase.expectedOutput || "N/A"}\n\n`;
-    });
-
-    return content;
-  }
-
-  private truncateText(text: string, maxLength: number): string {
-    if (text.length <= maxLength) return text;
-    return text.substring(0, maxLength - 3) + "...";
-  }
 }
@@ -0,0 +1,83 @@
+import type { GitService } from "./git";
+import type { CommitSuggestion, TicketSettings } from "./Types/types";
+
+// Jira-style keys such as PROJ-1234
+export const DEFAULT_TICKET_PATTERN = "[A-Z][A-Z0-9]+-\\d+";
+const DEFAULT_FOOTER_TOKEN = "Refs";
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function ticketPattern(settings: TicketSettings): RegExp {
+  return new RegExp(settings.pattern ?? DEFAULT_TICKET_PATTERN);
+}
+
+/** The ticket ID in a branch name, e.g. PROJ-1234 in `feature/PROJ-1234-add-login`. */
+export function extractTicket(
+  branch: string,
+  settings: TicketSettings
+): string | null {
+  const match = ticketPattern(settings).exec(branch);
+  return match ? match[1] ?? match[0] : null;
+}
+
+/** The ticket of the checked out branch, null when tickets are not configured or the name has none. */
+export async function getBranchTicket(
+  git: GitService,
+  settings?: TicketSettings
+): Promise<string | null> {
+  if (!settings) return null;
+  const branch = await git.getCurrentBranch().catch(() => null);
+  return branch ? extractTicket(branch, settings) : null;
+}
+
+/** Whether a message references `ticket`, or any ticket when the branch has none. */
+export function mentionsTicket(
+  message: string,
+  settings: TicketSettings,
+  ticket?: string
+): boolean {
+  return ticket
+    ? new RegExp(`\\b${escapeRegExp(ticket)}\\b`).test(message)
+    : ticketPattern(settings).test(message);
+}
+
+/** Characters the ticket takes from the description limit, only a prefix counts. */
+export function ticketLength(ticket: string, settings: TicketSettings): number {
+  return settings.placement === "prefix" ? ticket.length + 1 : 0;
+}
+
+/**
+ * Puts the ticket where the settings ask for it: before the description, as the scope or
+ * in a footer. A copy the model or the author already wrote into the description is
+ * removed first, so the ticket never shows up twice.
+ */
+export function applyTicket(
+  suggestion: CommitSuggestion,
+  ticket: string,
+  settings: TicketSettings
+): CommitSuggestion {
+  const description =
+    suggestion.description
+      .replace(new RegExp(`^\\[?${escapeRegExp(ticket)}\\]?[\\s:-]*`), "")
+      .replace(new RegExp(`[\\s(\\[]*${escapeRegExp(ticket)}[)\\]]?$`), "")
+      .trim() || suggestion.description;
+  const token = settings.footer ?? DEFAULT_FOOTER_TOKEN;
+  const footers = (suggestion.footers ?? []).filter(
+    (footer) => !(footer.token === token && footer.value === ticket)
+  );
+
+  switch (settings.placement) {
+    case "prefix":
+      return { ...suggestion, description: `${ticket} ${description}`, footers };
+    case "scope":
+      return { ...suggestion, scope: ticket, description, footers };
+    default:
+      return {
+        ...suggestion,
+        description,
+        footers: [...footers, { token, value: ticket }],
+      };
+  }
+}
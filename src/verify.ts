@@ -0,0 +1,158 @@
+import { spawn } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { testCommand } from "./frameworks";
+import { GitService } from "./git";
+import type { TestFileTarget } from "./Types/types";
+
+// Seconds, the `testTimeout` setting overrides it
+export const DEFAULT_TEST_TIMEOUT = 120;
+// Only the end of a long run is kept, that is where the failures and the summary are
+const MAX_OUTPUT_LENGTH = 20000;
+// Installed dependencies are ignored by git, so the sandbox borrows the repository's own
+const DEPENDENCY_DIRS = ["node_modules", ".venv", "venv"];
+
+export interface TestRun {
+  passed: boolean;
+  output: string;
+  timedOut: boolean;
+}
+
+/**
+ * Runs a command and collects its output. A command still running after `timeoutMs` is
+ * killed together with everything it started, test runners like to spawn workers.
+ */
+export function runTestCommand(
+  command: string[],
+  cwd: string,
+  timeoutMs: number
+): Promise<TestRun> {
+  return new Promise((resolve) => {
+    const [program, ...args] = command;
+    const child = spawn(program, args, {
+      cwd,
+      env: { ...process.env, CI: "1", FORCE_COLOR: "0", NO_COLOR: "1" },
+      stdio: ["ignore", "pipe", "pipe"],
+      // Its own process group on POSIX, so the whole group can be killed
+      detached: process.platform !== "win32",
+      shell: process.platform === "win32",
+    });
+
+    let output = "";
+    let timedOut = false;
+    const collect = (chunk: Buffer) => {
+      output = (output + chunk.toString()).slice(-MAX_OUTPUT_LENGTH);
+    };
+    child.stdout.on("data", collect);
+    child.stderr.on("data", collect);
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        if (process.platform === "win32") child.kill();
+        else process.kill(-child.pid!, "SIGKILL");
+      } catch {
+        // Already gone
+      }
+    }, timeoutMs);
+
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      resolve({
+        passed: false,
+        output: `Could not run ${program}: ${error.message}`,
+        timedOut: false,
+      });
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      resolve({ passed: code === 0 && !timedOut, output, timedOut });
+    });
+  });
+}
+
+/**
+ * A throwaway checkout of the working tree, modified and untracked files included, where
+ * generated tests can be written and run without touching the repository. Nothing that
+ * happens in it reaches the working tree; `dispose` removes it.
+ */
+export class TestSandbox {
+  readonly dir: string;
+  private git: GitService;
+  private links: string[] = [];
+
+  private constructor(git: GitService, dir: string) {
+    this.git = git;
+    this.dir = dir;
+  }
+
+  static async create(git: GitService): Promise<TestSandbox> {
+    const root = await git.getRepositoryRoot();
+    const snapshot = await git.snapshotWorkingTree();
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "fynn-sandbox-"));
+    // The worktree is created inside, mkdtemp only reserves the name
+    const checkout = path.join(dir, "checkout");
+    await git.addWorktree(checkout, snapshot);
+    const sandbox = new TestSandbox(git, checkout);
+
+    try {
+      for (const file of await git.getUntrackedFiles()) {
+        fs.cpSync(path.join(root, file), path.join(checkout, file), {
+          verbatimSymlinks: true,
+        });
+      }
+      sandbox.linkDependencies(root, "");
+    } catch (error) {
+      await sandbox.dispose();
+      throw error;
+    }
+    return sandbox;
+  }
+
+  /**
+   * Links the installed dependencies of the project in `dir`, relative to the repository
+   * root, into the sandbox. Workspace packages can have their own next to the root's.
+   */
+  linkDependencies(root: string, dir: string): void {
+    for (const name of DEPENDENCY_DIRS) {
+      const source = path.join(root, dir, name);
+      const target = path.join(this.dir, dir, name);
+      if (fs.existsSync(source) && !fs.existsSync(target)) {
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.symlinkSync(source, target, "junction");
+        this.links.push(target);
+      }
+    }
+  }
+
+  write(file: string, content: string): void {
+    const target = path.join(this.dir, file);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, content, "utf8");
+  }
+
+  /** Puts a test file back the way it was, removing it when it did not exist. */
+  restore(file: string, existing?: string): void {
+    if (existing !== undefined) {
+      this.write(file, existing);
+    } else {
+      fs.rmSync(path.join(this.dir, file), { force: true });
+    }
+  }
+
+  async run(target: TestFileTarget, timeoutMs: number): Promise<TestRun> {
+    return runTestCommand(
+      testCommand(target, this.dir),
+      path.join(this.dir, target.framework.root),
+      timeoutMs
+    );
+  }
+
+  async dispose(): Promise<void> {
+    // Links first, so removing the worktree never follows them into the real dependencies
+    this.links.forEach((link) => fs.rmSync(link, { force: true }));
+    await this.git.removeWorktree(this.dir).catch(() => undefined);
+    fs.rmSync(path.dirname(this.dir), { recursive: true, force: true });
+  }
+}
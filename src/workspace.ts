@@ -0,0 +1,179 @@
+import fs from "fs";
+import path from "path";
+import { ConfigService } from "./config";
+import { isPlainObject, readJson } from "./json";
+import type { WorkspacePackage } from "./Types/types";
+
+const PNPM_WORKSPACE_FILE = "pnpm-workspace.yaml";
+const SKIPPED_DIRS = new Set(["node_modules", "dist", "build", "coverage"]);
+// How deep a `**` pattern is followed, workspaces nest far less than this
+const MAX_GLOB_DEPTH = 5;
+
+/** Entries of the `packages:` list, the only part of pnpm-workspace.yaml that matters here. */
+function readPnpmPatterns(file: string): string[] {
+  const lines = fs.readFileSync(file, "utf8").split("\n");
+  const start = lines.findIndex((line) => /^packages:\s*$/.test(line));
+  if (start === -1) return [];
+
+  const patterns: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (/^\S/.test(line)) break;
+    const item = /^\s*-\s*(['"]?)(.+?)\1\s*(?:#.*)?$/.exec(line);
+    if (item) patterns.push(item[2]);
+  }
+  return patterns;
+}
+
+/** Workspace patterns from `.fynnrc`, pnpm-workspace.yaml or package.json, in that order. */
+function workspacePatterns(root: string, configured?: string[]): string[] {
+  if (configured && configured.length > 0) return configured;
+
+  const pnpmFile = path.join(root, PNPM_WORKSPACE_FILE);
+  if (fs.existsSync(pnpmFile)) return readPnpmPatterns(pnpmFile);
+
+  const manifest = readJson(path.join(root, "package.json"));
+  const workspaces = isPlainObject(manifest) ? manifest.workspaces : undefined;
+  if (Array.isArray(workspaces)) return workspaces.map(String);
+  // Yarn's object form: { "packages": [...], "nohoist": [...] }
+  if (isPlainObject(workspaces) && Array.isArray(workspaces.packages)) {
+    return workspaces.packages.map(String);
+  }
+  return [];
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/^\.\//, "")
+    .replace(/\/+$/, "")
+    .split("/")
+    .map((part) =>
+      part === "**"
+        ? ".*"
+        : part
+            .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+            .replace(/\*/g, "[^/]*")
+            .replace(/\?/g, "[^/]")
+    )
+    .join("/")
+    .replace(/\/\.\*$/, "(?:/.*)?");
+  return new RegExp(`^${source}$`);
+}
+
+function listDirectories(root: string, depth: number, prefix = ""): string[] {
+  if (depth === 0) return [];
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(path.join(root, prefix), { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  return entries
+    .filter(
+      (entry) =>
+        entry.isDirectory() &&
+        !entry.name.startsWith(".") &&
+        !SKIPPED_DIRS.has(entry.name)
+    )
+    .flatMap((entry) => {
+      const dir = prefix ? `${prefix}/${entry.name}` : entry.name;
+      return [dir, ...listDirectories(root, depth - 1, dir)];
+    });
+}
+
+/** Short scope for a package name: `@acme/ui` becomes `ui`. */
+export function packageScope(name: string): string {
+  return name.replace(/^@[^/]+\//, "");
+}
+
+/**
+ * Packages of a pnpm, npm or yarn workspace, or of the `workspaces` patterns in the
+ * fynn config. A directory counts when it matches a pattern and is not negated with `!`;
+ * its name comes from its package.json, or from the directory for non-JS packages.
+ */
+export function discoverWorkspacePackages(
+  root: string,
+  configured?: string[]
+): WorkspacePackage[] {
+  const patterns = workspacePatterns(root, configured);
+  const include = patterns.filter((p) => !p.startsWith("!")).map(patternToRegExp);
+  const exclude = patterns
+    .filter((p) => p.startsWith("!"))
+    .map((p) => patternToRegExp(p.slice(1)));
+  if (include.length === 0) return [];
+
+  const depth = patterns.some((p) => p.includes("**"))
+    ? MAX_GLOB_DEPTH
+    : Math.max(...patterns.map((p) => p.replace(/\/+$/, "").split("/").length));
+  const requirePackageJson = !configured || configured.length === 0;
+
+  return listDirectories(root, depth)
+    .filter(
+      (dir) =>
+        include.some((regex) => regex.test(dir)) &&
+        !exclude.some((regex) => regex.test(dir))
+    )
+    .map((dir) => {
+      const manifest = readJson(path.join(root, dir, "package.json"));
+      if (!manifest && requirePackageJson) return null;
+      const name =
+        isPlainObject(manifest) && typeof manifest.name === "string"
+          ? manifest.name
+          : path.posix.basename(dir);
+      return { name, dir };
+    })
+    .filter((pkg): pkg is WorkspacePackage => pkg !== null)
+    .sort((a, b) => a.dir.localeCompare(b.dir));
+}
+
+/** Workspace packages of the current repository, empty outside a monorepo. */
+export function loadWorkspacePackages(): WorkspacePackage[] {
+  const config = new ConfigService();
+  const root = config.getProjectRoot();
+  return root
+    ? discoverWorkspacePackages(root, config.getConfig().workspaces)
+    : [];
+}
+
+/** The innermost package containing a repository-relative file. */
+export function findPackage(
+  packages: WorkspacePackage[],
+  file: string
+): WorkspacePackage | undefined {
+  return packages
+    .filter((pkg) => file.startsWith(`${pkg.dir}/`))
+    .sort((a, b) => b.dir.length - a.dir.length)[0];
+}
+
+/** Distinct packages touched by a set of files, files outside every package are ignored. */
+export function packagesForFiles(
+  packages: WorkspacePackage[],
+  files: string[]
+): WorkspacePackage[] {
+  const touched = new Map<string, WorkspacePackage>();
+  for (const file of files) {
+    const pkg = findPackage(packages, file);
+    if (pkg) touched.set(pkg.dir, pkg);
+  }
+  return Array.from(touched.values());
+}
+
+/** Looks a package up by its name, short scope or directory. */
+export function resolvePackage(
+  packages: WorkspacePackage[],
+  query: string
+): WorkspacePackage {
+  const normalized = query.replace(/^\.\//, "").replace(/\/+$/, "");
+  const pkg =
+    packages.find((p) => p.name === normalized || p.dir === normalized) ??
+    packages.find((p) => packageScope(p.name) === normalized);
+  if (!pkg) {
+    throw new Error(
+      packages.length === 0
+        ? "No workspace packages found, configure them in package.json, pnpm-workspace.yaml or the 'workspaces' setting"
+        : `Unknown package '${query}', expected one of: ${packages
+            .map((p) => p.name)
+            .join(", ")}`
+    );
+  }
+  return pkg;
+}